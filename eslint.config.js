@@ -20,4 +20,14 @@ export default defineConfig([
       globals: globals.browser,
     },
   },
+  {
+    // The header parser is plain JS so the Node scripts can import it; the test corpora
+    // next to the modules are plain JS as well
+    files: ['src/**/*.js'],
+    extends: [js.configs.recommended],
+    languageOptions: {
+      ecmaVersion: 2022,
+      globals: globals.browser,
+    },
+  },
 ])
@@ -9,6 +9,7 @@
 # 2. Extracts lean-4.28.0-pre-linux_wasm32.tar.zst
 # 3. Copies bin files to lean-wasm/
 # 4. Copies all .olean* files to lean-lib/ for dynamic loading
+# 5. Generates lean-lib-files.json and the lean-lib.tar.gz bundle
 #
 
 set -e
@@ -137,10 +138,16 @@ echo "=== Step 7: Generating lean-lib-files.json ==="
 cd "$PROJECT_ROOT"
 node scripts/gen-lib-files.mjs "$LEAN_LIB_DIR" "$LEAN_WASM_DIR/lean-lib-files.json"
 
+# Step 8: Generate lean-lib.tar.gz (single-archive delivery)
+echo ""
+echo "=== Step 8: Generating lean-lib.tar.gz ==="
+node scripts/gen-lib-bundle.mjs "$LEAN_LIB_DIR" "$LEAN_WASM_DIR/lean-lib-files.json" "$LEAN_WASM_DIR/lean-lib.tar.gz"
+
 echo ""
 echo "=== Done ==="
 echo "Output directory: $LEAN_LIB_DIR"
 echo "File list: $LEAN_WASM_DIR/lean-lib-files.json"
+echo "Bundle: $LEAN_WASM_DIR/lean-lib.tar.gz"
 echo ""
 echo "To verify contents:"
 echo "  find $LEAN_LIB_DIR -name '*.olean*' | head -20"
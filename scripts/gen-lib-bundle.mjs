@@ -0,0 +1,111 @@
+#!/usr/bin/env node
+/**
+ * Generate lean-lib.tar.gz - the whole library as a single compressed archive
+ *
+ * Usage: node scripts/gen-lib-bundle.mjs [lean-lib-dir] [file-list] [output-file]
+ *
+ * Defaults:
+ *   lean-lib-dir: public/lean-wasm/lean-lib
+ *   file-list:    public/lean-wasm/lean-lib-files.json
+ *   output-file:  public/lean-wasm/lean-lib.tar.gz
+ *
+ * Entries are named exactly like lean-lib-files.json (e.g. "Init/Prelude.olean").
+ * Names longer than the 100-byte ustar field get a PAX "path" header.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+
+const BLOCK = 512;
+
+function writeOctal(header, offset, length, value) {
+  const str = value.toString(8).padStart(length - 1, '0');
+  header.write(str, offset, length - 1, 'ascii');
+  header[offset + length - 1] = 0;
+}
+
+function tarHeader(name, size, type = '0') {
+  const header = Buffer.alloc(BLOCK);
+  header.write(name.slice(0, 100), 0, 100, 'utf8');
+  writeOctal(header, 100, 8, 0o644);        // mode
+  writeOctal(header, 108, 8, 0);            // uid
+  writeOctal(header, 116, 8, 0);            // gid
+  writeOctal(header, 124, 12, size);        // size
+  writeOctal(header, 136, 12, 0);           // mtime (fixed for reproducible bundles)
+  header.fill(' ', 148, 156);               // checksum placeholder
+  header.write(type, 156, 1, 'ascii');
+  header.write('ustar\0', 257, 6, 'ascii');
+  header.write('00', 263, 2, 'ascii');
+
+  let checksum = 0;
+  for (const b of header) checksum += b;
+  writeOctal(header, 148, 7, checksum);
+  header[155] = 0x20;
+  return header;
+}
+
+function padding(size) {
+  return Buffer.alloc((BLOCK - (size % BLOCK)) % BLOCK);
+}
+
+// PAX record: "<len> path=<name>\n" where len counts the whole record
+function paxRecord(key, value) {
+  const body = ` ${key}=${value}\n`;
+  let length = Buffer.byteLength(body) + 1;
+  while (String(length).length + Buffer.byteLength(body) !== length) length++;
+  return `${length}${body}`;
+}
+
+function* tarEntries(leanLibDir, files) {
+  for (const file of files) {
+    const data = fs.readFileSync(path.join(leanLibDir, file));
+    if (Buffer.byteLength(file) > 100) {
+      const pax = Buffer.from(paxRecord('path', file));
+      yield tarHeader('PaxHeader', pax.length, 'x');
+      yield pax;
+      yield padding(pax.length);
+    }
+    yield tarHeader(file, data.length);
+    yield data;
+    yield padding(data.length);
+  }
+  // End of archive: two empty blocks
+  yield Buffer.alloc(BLOCK * 2);
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const leanLibDir = args[0] || 'public/lean-wasm/lean-lib';
+  const fileListPath = args[1] || 'public/lean-wasm/lean-lib-files.json';
+  const outputFile = args[2] || 'public/lean-wasm/lean-lib.tar.gz';
+
+  if (!fs.existsSync(fileListPath)) {
+    console.error(`ERROR: ${fileListPath} not found!`);
+    console.error('Run npm run gen-lib-files first.');
+    process.exit(1);
+  }
+
+  const files = JSON.parse(fs.readFileSync(fileListPath, 'utf-8'));
+  console.log(`Bundling ${files.length} files from ${leanLibDir}...`);
+
+  const gzip = zlib.createGzip({ level: 9 });
+  const out = fs.createWriteStream(outputFile);
+  gzip.pipe(out);
+
+  for (const chunk of tarEntries(leanLibDir, files)) {
+    if (!gzip.write(chunk)) {
+      await new Promise(resolve => gzip.once('drain', resolve));
+    }
+  }
+  gzip.end();
+  await new Promise((resolve, reject) => {
+    out.on('finish', resolve);
+    out.on('error', reject);
+  });
+
+  const size = fs.statSync(outputFile).size;
+  console.log(`Written to ${outputFile} (${(size / (1024 * 1024)).toFixed(1)} MB)`);
+}
+
+main();
@@ -1,40 +1,24 @@
 #!/usr/bin/env node
 /**
- * Generate a dependency manifest from Lean source files.
+ * Generate a dependency manifest from Lean source files and the built library.
  * 
- * Usage: node scripts/gen-manifest.mjs <lean-src-dir> <output-manifest.json>
+ * Usage: node scripts/gen-manifest.mjs <lean-src-dir> <output-manifest.json> [lean-lib-dir] [--toolchain <version>]
  * Example: node scripts/gen-manifest.mjs ../lean4/src public/lean-manifest.json
  * 
- * @note currently unused, we are testing with all files first (gen-lib-files)
+ * Manifest v2: each module lists its imports and, for every variant file the library
+ * has (.olean, .olean.server, .olean.private), the byte size and SHA-256 hash.
+ * lean-lib-dir defaults to public/lean-wasm/lean-lib. The toolchain version is read
+ * from <lean-src-dir>/CMakeLists.txt unless --toolchain gives it.
+ * 
+ * The playground reads the manifest to resolve imports and pick which variant files to
+ * fetch (lean-loader.ts), uses the sizes to estimate downloads and the hashes to check
+ * the fetched files.
  */
 
+import crypto from 'crypto';
 import fs from 'fs';
 import path from 'path';
-
-// Parse import statements from Lean source
-function parseImports(content) {
-  const imports = [];
-  const lines = content.split('\n');
-  
-  for (const line of lines) {
-    const trimmed = line.trim();
-    
-    // Skip comments
-    if (trimmed.startsWith('--') || trimmed.startsWith('/-')) continue;
-    
-    // Match various import forms:
-    // import Foo.Bar
-    // public import Foo.Bar
-    // meta import Foo.Bar
-    // public meta import Foo.Bar
-    const importMatch = trimmed.match(/^(?:public\s+)?(?:meta\s+)?import\s+(\S+)/);
-    if (importMatch) {
-      imports.push(importMatch[1]);
-    }
-  }
-  
-  return imports;
-}
+import { headerImports } from '../src/lean-header.js';
 
 // Convert file path to module name (e.g., "Init/Prelude.lean" -> "Init.Prelude")
 function pathToModuleName(filePath) {
@@ -48,6 +32,39 @@ function moduleToOleanPath(moduleName) {
   return moduleName.replace(/\./g, '/') + '.olean';
 }
 
+// Files a module can have in the library; .server and .private exist for modules
+// using the `module` keyword
+const OLEAN_VARIANTS = ['olean', 'olean.server', 'olean.private'];
+
+// Size and SHA-256 of each variant file of `moduleName` present in `libDir`
+function describeVariants(libDir, moduleName) {
+  const variants = {};
+  const basePath = moduleName.replace(/\./g, '/');
+  for (const variant of OLEAN_VARIANTS) {
+    const file = path.join(libDir, `${basePath}.${variant}`);
+    if (!fs.existsSync(file)) continue;
+    const data = fs.readFileSync(file);
+    variants[variant] = {
+      size: data.length,
+      sha256: crypto.createHash('sha256').update(data).digest('hex'),
+    };
+  }
+  return variants;
+}
+
+// Lean version from the source tree's CMakeLists.txt (e.g. 4.28.0-pre), or null
+function readToolchainVersion(srcDir) {
+  const cmakeFile = path.join(srcDir, 'CMakeLists.txt');
+  if (!fs.existsSync(cmakeFile)) return null;
+  const cmake = fs.readFileSync(cmakeFile, 'utf-8');
+  const setting = (name) => cmake.match(new RegExp(`set\\(${name}\\s+"?([^")\\s]*)"?\\)`))?.[1];
+  const [major, minor, patch] = ['LEAN_VERSION_MAJOR', 'LEAN_VERSION_MINOR', 'LEAN_VERSION_PATCH'].map(setting);
+  if (!major || !minor || !patch) return null;
+  const special = setting('LEAN_SPECIAL_VERSION_DESC');
+  if (special) return `${major}.${minor}.${patch}-${special}`;
+  return setting('LEAN_VERSION_IS_RELEASE') === '1' ? `${major}.${minor}.${patch}` : `${major}.${minor}.${patch}-pre`;
+}
+
 // Recursively find all .lean files
 function findLeanFiles(dir, basePath = '') {
   const files = [];
@@ -97,20 +114,33 @@ function computeTransitiveDeps(moduleName, modules, cache = new Map()) {
 
 function main() {
   const args = process.argv.slice(2);
+  const toolchainIndex = args.indexOf('--toolchain');
+  const toolchainArg = toolchainIndex >= 0 ? args.splice(toolchainIndex, 2)[1] : null;
   
   if (args.length < 2) {
-    console.error('Usage: node scripts/gen-manifest.mjs <lean-src-dir> <output-manifest.json>');
+    console.error('Usage: node scripts/gen-manifest.mjs <lean-src-dir> <output-manifest.json> [lean-lib-dir] [--toolchain <version>]');
     console.error('Example: node scripts/gen-manifest.mjs ../lean4/src public/lean-manifest.json');
     process.exit(1);
   }
   
   const srcDir = args[0];
   const outputPath = args[1];
+  const libDir = args[2] || 'public/lean-wasm/lean-lib';
   
   if (!fs.existsSync(srcDir)) {
     console.error(`Source directory not found: ${srcDir}`);
     process.exit(1);
   }
+  if (!fs.existsSync(libDir)) {
+    console.error(`ERROR: ${libDir} not found!`);
+    console.error('Run ./scripts/create-lean-lib.sh first to create the lean-lib directory.');
+    process.exit(1);
+  }
+  
+  const toolchain = toolchainArg || readToolchainVersion(srcDir);
+  if (!toolchain) {
+    console.warn('Toolchain version unknown (pass --toolchain <version>); the app will assume its default');
+  }
   
   console.log(`Scanning ${srcDir} for .lean files...`);
   const leanFiles = findLeanFiles(srcDir);
@@ -123,11 +153,12 @@ function main() {
     const fullPath = path.join(srcDir, file);
     const content = fs.readFileSync(fullPath, 'utf-8');
     const moduleName = pathToModuleName(file);
-    const imports = parseImports(content);
+    const imports = headerImports(content);
     
     modules[moduleName] = {
       path: moduleToOleanPath(moduleName),
       imports,
+      variants: describeVariants(libDir, moduleName),
     };
   }
   
@@ -136,20 +167,27 @@ function main() {
     const rootFile = path.join(srcDir, `${rootModule}.lean`);
     if (fs.existsSync(rootFile)) {
       const content = fs.readFileSync(rootFile, 'utf-8');
-      const imports = parseImports(content);
+      const imports = headerImports(content);
       modules[rootModule] = {
         path: `${rootModule}.olean`,
         imports,
+        variants: describeVariants(libDir, rootModule),
       };
     }
   }
   
   console.log(`Processed ${Object.keys(modules).length} modules`);
   
+  const unbuilt = Object.keys(modules).filter(m => !modules[m].variants.olean);
+  if (unbuilt.length > 0) {
+    console.warn(`${unbuilt.length} modules have no .olean in ${libDir} (e.g. ${unbuilt.slice(0, 3).join(', ')})`);
+  }
+  
   // Build manifest
   const manifest = {
-    version: '1.0',
+    version: '2.0',
     generated: new Date().toISOString(),
+    ...(toolchain && { toolchain }),
     modules,
   };
   
@@ -167,6 +205,11 @@ function main() {
   console.log(`  Std: ${stdModules.length} modules`);
   console.log(`  Lean: ${leanModules.length} modules`);
   
+  const variantFiles = Object.values(modules).flatMap(m => Object.values(m.variants));
+  const totalBytes = variantFiles.reduce((sum, f) => sum + f.size, 0);
+  console.log(`  Library: ${variantFiles.length} files, ${(totalBytes / 1024 / 1024).toFixed(1)} MB`);
+  if (toolchain) console.log(`  Toolchain: ${toolchain}`);
+  
   // Example: show what Init.Data.String needs
   const exampleModule = 'Init.Data.String';
   if (modules[exampleModule]) {
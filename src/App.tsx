@@ -1,100 +1,245 @@
 import { useState, useEffect, useRef, useCallback, useMemo } from 'react'
-import { fetchAllOleanFiles, fetchCompleteFileList } from './lean-loader'
+import { fetchOleanFiles, fetchOleanHead, fetchCompleteFileList, samplePerPackage, findUnknownImports, planLibraryFiles, loadManifest, estimateDownloadSize, getLibraryFileInfo } from './lean-loader'
+import type { LibraryPlan, UnresolvedModule } from './lean-loader'
+import { getCacheName, initCache } from './lean-cache'
+import { fetchLibraryBundle } from './lean-bundle'
+import { libraryUrl, loadToolchains } from './toolchains'
+import type { Toolchain, ToolchainIndex } from './toolchains'
+import { formatBytes, packLibrary, isSharedLibrary, sampleHeapSize } from './utils'
+import type { LibraryBlob } from './utils'
+import type { LeanRunner, RunResult } from './runner/runner'
+import { RunnerPool, DEFAULT_POOL_OPTIONS } from './runner/pool'
+import type { RunnerPoolOptions } from './runner/pool'
+import { ReplSession, REPL_IMPORTS, splitCommands } from './runner/repl'
+import type { ReplCallbacks } from './runner/repl'
+import { LspClient, toLeanDiagnostic } from './runner/lsp'
+import { StdinWriter, createStdinBuffer } from './runner/stdin'
+import type { GoalState } from './runner/lsp'
+import { WORKSPACE_DIR } from './runner/protocol'
+import type { LazyLibrary, RunnerFile } from './runner/protocol'
+import { parseDiagnosticLine, parseLeanOutput } from './diagnostics'
+import { createPermalink, readPermalink } from './permalink'
+import { describeBuild, libraryBuildMismatch, parseLeanVersion } from './olean-header'
+import type { LeanBuild } from './olean-header'
+import type { Permalink } from './permalink'
+import type { LeanDiagnostic } from './diagnostics'
+import CacheControls from './CacheControls'
+import DiagnosticsView from './DiagnosticsView'
+import ReplPanel from './ReplPanel'
+import OutputFiles from './OutputFiles'
+import ProgramPanel from './ProgramPanel'
+import HistoryPanel from './HistoryPanel'
+import { createRunRecord, loadHistory, loadWorkspace, saveHistory, saveWorkspace } from './local-store'
+import type { RunRecord } from './local-store'
+import type { ProgramOutput } from './ProgramPanel'
+import LeanEditor from './LeanEditor'
+import type { LeanEditorHandle } from './LeanEditor'
+import { diagnosticsToMarkers, mapMarkers, sameDiagnostic } from './editor-markers'
+import type { EditorMarker } from './editor-markers'
+import InfoviewPanel from './InfoviewPanel'
+import type { LanguageServerStatus } from './InfoviewPanel'
+import { characterToColumn, columnToCharacter, offsetToPosition, positionToOffset } from './text-position'
+import type { TextPosition } from './text-position'
+import { DEFAULT_FILE_NAME, buildOrder, localImports, localModules, moduleNameOf, oleanPathOf, validateFileName, workspaceFileName, workspacePath } from './workspace'
+import type { WorkspaceFile } from './workspace'
 import './App.css'
 
-// Parsed Lean diagnostic message
-interface LeanDiagnostic {
-  severity: 'information' | 'warning' | 'error' | string
-  data: string
-  pos: { line: number; column: number }
-  endPos: { line: number; column: number }
-  fileName: string
-  caption?: string
-  kind?: string
+type Status = 'idle' | 'loading' | 'ready' | 'running' | 'error'
+
+// How library files are downloaded: one request per file, or a single archive
+type LibraryDelivery = 'files' | 'bundle'
+
+// How the library reaches /lib/lean: written up front, or fetched when Lean opens a file
+type LibraryFsMode = 'eager' | 'lazy'
+
+// Summary of how the library for the last run was assembled
+interface LibraryLoadInfo {
+  mode: LibraryPlan['mode']
+  delivery: LibraryDelivery | 'lazy'
+  reason?: string
+  fileCount: number      // Files handed to Lean
+  fetchedCount: number   // Files downloaded for this run (the rest came from cache)
+  fetchedBytes: number
 }
 
-// Parse JSON output lines from Lean
-function parseLeanOutput(output: string): { diagnostics: LeanDiagnostic[]; rawLines: string[] } {
-  const diagnostics: LeanDiagnostic[] = []
-  const rawLines: string[] = []
-  
-  for (const line of output.split('\n')) {
-    if (!line.trim()) continue
-    try {
-      const parsed = JSON.parse(line)
-      if (parsed.pos && parsed.data !== undefined) {
-        diagnostics.push(parsed as LeanDiagnostic)
-      } else {
-        rawLines.push(line)
-      }
-    } catch {
-      rawLines.push(line)
-    }
-  }
-  
-  return { diagnostics, rawLines }
+// Cost of handing the library to the runner for the last run
+interface TransferInfo {
+  shared: boolean             // SharedArrayBuffer (no copies) vs. one structured-clone copy
+  bytes: number
+  packMs: number | null       // Time to pack the blob; null when a packed blob was reused
+  transferMs: number | null   // postMessage until the runner acknowledged the library
+  mountMs: number | null      // Runner-side time to mount the files in MEMFS
+  wasmBefore: number | null   // The runner's wasm memory before the transfer
+  wasmAfter: number | null    // Its wasm memory when the run ended, i.e. the run's peak
+  // The page's JS heap, from the non-standard performance.memory: Chromium only, null
+  // elsewhere, and not including Lean's wasm memory
+  heapBefore: number | null   // JS heap before the transfer
+  heapPeak: number | null     // Highest JS heap sample during the run
 }
 
-// Type for the Lean WASM module
-interface LeanModule {
-  // Different ways Emscripten might expose main
-  callMain?: (args: string[]) => number
-  _main?: (argc: number, argv: number) => number
-  ccall?: (name: string, returnType: string, argTypes: string[], args: unknown[]) => unknown
-  cwrap?: (name: string, returnType: string, argTypes: string[]) => (...args: unknown[]) => unknown
-  
-  // Filesystem
-  FS: {
-    writeFile: (path: string, data: string | Uint8Array) => void
-    readFile: (path: string, opts?: { encoding?: string }) => string | Uint8Array
-    mkdir: (path: string) => void
-    readdir: (path: string) => string[]
-    stat: (path: string) => { isDirectory: () => boolean }
-    cwd: () => string
-    chdir: (path: string) => void
+// Library and metrics inputs for one run in a runner
+interface RunOptions {
+  code?: string
+  path?: string
+  library?: LibraryBlob | LazyLibrary
+  libraryKey?: string        // Skips the transfer if the runner already has this library
+  packMs?: number | null
+  files?: RunnerFile[]       // Written before the run, e.g. compiled workspace modules
+  outputs?: string[]         // Read back after the run into RunResult.files
+  stdin?: SharedArrayBuffer  // The program's stdin channel; without one it reads EOF
+  // Called when a lazy library was requested but the runner can't fetch synchronously
+  loadEager?: () => Promise<{ blob: LibraryBlob; packMs: number | null }>
+}
+
+// Default wall-time limit per run, in seconds
+const DEFAULT_WALL_TIME_S = 120
+
+// Default idle time before watch mode re-checks the buffer, in milliseconds
+const DEFAULT_WATCH_DELAY_MS = 800
+
+// Pause after edits before the buffers are saved to localStorage
+const WORKSPACE_SAVE_DELAY_MS = 300
+
+// Markers of a file without diagnostics (a stable value for the editor)
+const NO_MARKERS: EditorMarker[] = []
+
+// Limit for `lean --version` when the runtime's build is read at load
+const VERSION_CHECK_TIMEOUT_MS = 30_000
+
+// Pauses before sending edits and goal requests to the language server
+const LSP_CHANGE_DELAY_MS = 300
+const LSP_GOAL_DELAY_MS = 200
+
+// One line summarising how a run ended, with its peak wasm memory when known
+function describeRunResult(result: RunResult): string {
+  const seconds = `${(result.durationMs / 1000).toFixed(1)} s`
+  const memory = result.memoryBytes ? `, ${formatBytes(result.memoryBytes)} wasm memory` : ''
+  switch (result.outcome) {
+    case 'exit': return `Exit code: ${result.exitCode} (${seconds}${memory})`
+    case 'cancel': return `Cancelled after ${seconds}`
+    case 'timeout': return `Timed out: ${result.message}`
+    case 'abort': return `Aborted after ${seconds}${memory}: ${result.message ?? 'unknown reason'}`
   }
-  ENV: Record<string, string>
-  
-  // Memory/utilities
-  allocateUTF8?: (str: string) => number
-  stringToNewUTF8?: (str: string) => number
-  _malloc?: (size: number) => number
-  _free?: (ptr: number) => void
-  HEAPU8?: Uint8Array
-  HEAPU32?: Uint32Array
-  HEAP32?: Int32Array
-  setValue?: (ptr: number, value: number, type: string) => void
-  lengthBytesUTF8?: (str: string) => number
-  stringToUTF8?: (str: string, ptr: number, maxBytes: number) => void
-  
-  print: (text: string) => void
-  printErr: (text: string) => void
 }
 
-declare global {
-  interface Window {
-    Module?: LeanModule
+function contentOf(files: WorkspaceFile[], name: string): string {
+  return files.find(f => f.name === name)?.content ?? ''
+}
+
+// Imports of `file` that no library provides, as error diagnostics on the imports
+async function unknownImportDiagnostics(
+  toolchain: Toolchain,
+  file: WorkspaceFile,
+  locals: ReadonlySet<string>
+): Promise<LeanDiagnostic[]> {
+  let unknown: UnresolvedModule[]
+  try {
+    unknown = await findUnknownImports(toolchain, file.content, locals)
+  } catch (err) {
+    // Without a manifest there is nothing to check against; Lean reports them itself
+    console.warn('Import check skipped:', err)
+    return []
+  }
+  const leanPosition = (offset: number) => {
+    const { line, character } = offsetToPosition(file.content, offset)
+    return { line: line + 1, column: characterToColumn(file.content.split('\n')[line], character) }
   }
+  return unknown.map(u => ({
+    severity: 'error',
+    data: `Module ${u.module} is not available in this playground` +
+      (u.importedBy ? ` (imported by ${u.importedBy})` : '') +
+      (u.suggestions.length > 0 ? `\n\nDid you mean ${u.suggestions.join(', ')}?` : ''),
+    pos: leanPosition(u.range?.start ?? 0),
+    endPos: u.range ? leanPosition(u.range.end) : null,
+    fileName: workspacePath(file.name),
+  }))
 }
 
-type Status = 'idle' | 'loading' | 'ready' | 'running' | 'error'
+// Shared link in the URL the page was opened with
+function openPermalink(): { link: Permalink | null; error: string } {
+  try {
+    return { link: readPermalink(window.location.hash), error: '' }
+  } catch (err) {
+    return { link: null, error: err instanceof Error ? err.message : String(err) }
+  }
+}
 
 function App() {
+  const [sharedLink] = useState(openPermalink)
   const [status, setStatus] = useState<Status>('idle')
   const [output, setOutput] = useState<string>('')
-  const [error, setError] = useState<string>('')
-  const [leanCode, setLeanCode] = useState<string>(`#check 2 + 2
+  const [error, setError] = useState<string>(sharedLink.error)
+  // A shared link's files replace the saved buffers, but only once they are edited
+  const [initialWorkspace] = useState(() => sharedLink.link ?? loadWorkspace())
+  const [files, setFiles] = useState<WorkspaceFile[]>(() => initialWorkspace?.files ?? [{
+    name: DEFAULT_FILE_NAME,
+    content: `#check 2 + 2
 #check Nat.add
 def hello := "Hello, WASM!"
-#check hello`)
-  const [leanFlags, setLeanFlags] = useState<string>('--json')  // Additional flags for Lean
+#check hello`,
+  }])
+  // File shown in the editor
+  const [activeFile, setActiveFile] = useState(() =>
+    files.find(f => f.name === initialWorkspace?.activeFile)?.name ?? files[0].name)
+  const leanCode = contentOf(files, activeFile)
+  const [leanFlags, setLeanFlags] = useState<string>(sharedLink.link?.flags ?? '--json')  // Additional flags for Lean
+  const [shareAutorun, setShareAutorun] = useState(false)  // Links made with Share run on open
+  const [shareMessage, setShareMessage] = useState<{ text: string; error: boolean } | null>(null)
+  const [collectPatterns, setCollectPatterns] = useState<string>('')  // Files to read back after a run
+  const [outputFiles, setOutputFiles] = useState<Map<string, Uint8Array> | null>(null)
+  const [programOutput, setProgramOutput] = useState<ProgramOutput | null>(null)  // Last `lean --run`
+  const [history, setHistory] = useState<RunRecord[]>(loadHistory)  // Saved runs, newest first
+  const [runStdout, setRunStdout] = useState('')  // Lean's stdout of the latest Run Code, for comparing with history
+  const [toolchainIndex, setToolchainIndex] = useState<ToolchainIndex | null>(null)  // Toolchains served
+  // Toolchain picked, or asked for by a shared link; the index default if it isn't served
+  const [toolchainVersion, setToolchainVersion] = useState<string | null>(sharedLink.link?.toolchain || null)
   const [loadingProgress, setLoadingProgress] = useState<string>('')
   const [wasmLoaded, setWasmLoaded] = useState(false)  // Track if WASM is cached
   const [manifestLoaded, setManifestLoaded] = useState(false)  // Track if manifest is loaded
-  const moduleRef = useRef<LeanModule | null>(null)
+  const [moduleNames, setModuleNames] = useState<string[]>([])  // Library modules in the manifest
+  const [libraryInfo, setLibraryInfo] = useState<LibraryLoadInfo | null>(null)
+  const [cacheName, setCacheName] = useState<string | null>(null)  // Persistent cache generation
+  const [delivery, setDelivery] = useState<LibraryDelivery>('files')
+  const [fsMode, setFsMode] = useState<LibraryFsMode>('eager')
+  const [wallTimeLimit, setWallTimeLimit] = useState<string>(String(DEFAULT_WALL_TIME_S))  // Seconds; empty = no limit
+  const [maxHeartbeats, setMaxHeartbeats] = useState<string>('')  // Empty = Lean's default
+  const [lastRun, setLastRun] = useState<RunResult | null>(null)
+  const [watchMode, setWatchMode] = useState(false)  // Re-check automatically after edits
+  const [watchDelay, setWatchDelay] = useState<string>(String(DEFAULT_WATCH_DELAY_MS))
+  const [bufferVersion, setBufferVersion] = useState(1)  // Bumped on every edit
+  const [outputVersion, setOutputVersion] = useState<number | null>(null)  // Buffer version of the shown output
+  const [poolSize, setPoolSize] = useState<string>(String(DEFAULT_POOL_OPTIONS.size))
+  const [poolMemoryMb, setPoolMemoryMb] = useState<string>(String(DEFAULT_POOL_OPTIONS.memoryCapBytes / (1024 * 1024)))
   const outputRef = useRef<HTMLDivElement>(null)
-  const scriptRef = useRef<HTMLScriptElement | null>(null)
+  const runnerRef = useRef<LeanRunner | null>(null)  // Runner of the current/last run
+  const poolRef = useRef<RunnerPool | null>(null)  // Pre-warmed runners, created on load
+  const cancelRequestedRef = useRef(false)  // Stop was pressed during the current run
+  const runGenerationRef = useRef(0)  // Bumped per run; older runs drop their results
+  const autorunRef = useRef(sharedLink.link?.autorun ?? false)  // Run the shared code once Lean is loaded
+  const reloadRef = useRef(false)  // Load Lean again once another toolchain is selected
   const loadedOleansRef = useRef<Map<string, Uint8Array>>(new Map())  // Cache of loaded .olean files
+  const runtimeBuildRef = useRef<LeanBuild | null>(null)  // From `lean --version` at load
+  const lazyBuildCheckedRef = useRef<Set<string>>(new Set())  // Package roots whose lazily mounted files matched
+  const missingOleansRef = useRef<Set<string>>(new Set())  // Paths the server doesn't have (404)
+  const bundleLoadedRef = useRef(false)  // The whole library bundle is already in loadedOleansRef
+  const libraryBlobRef = useRef<{ key: string; blob: LibraryBlob } | null>(null)  // Packed library of the last run
+  const [transferInfo, setTransferInfo] = useState<TransferInfo | null>(null)
+  const [lspStatus, setLspStatus] = useState<LanguageServerStatus>('stopped')
+  const [lspMessage, setLspMessage] = useState<string | undefined>(undefined)
+  const [lspDiagnostics, setLspDiagnostics] = useState<LeanDiagnostic[]>([])
+  const [lspProcessing, setLspProcessing] = useState(false)
+  const [cursor, setCursor] = useState<TextPosition | null>(null)
+  const [goals, setGoals] = useState<GoalState | null>(null)
+  const [markers, setMarkers] = useState<Record<string, EditorMarker[]>>({})  // Diagnostics drawn in the editor, per file
+  const editorRef = useRef<LeanEditorHandle>(null)
+  const filesRef = useRef(files)  // Workspace as of the last edit, for callbacks
+  const activeFileRef = useRef(activeFile)  // File in the editor, for callbacks that mustn't change with it
+  const workspaceOleansRef = useRef<RunnerFile[]>([])  // Workspace modules compiled by the last run
+  const pendingRevealRef = useRef<LeanDiagnostic | null>(null)  // Shown once its file is in the editor
+  const lspRef = useRef<LspClient | null>(null)
+  const lspFileRef = useRef<string>('')  // Workspace file the file worker elaborates
+  const lspHeaderRef = useRef<string>('')  // Imports the file worker was started with
+  const lspTextRef = useRef<string>('')  // Buffer the file worker last received
 
   // Check if SharedArrayBuffer is available and cross-origin isolated
   const hasSharedArrayBuffer = typeof SharedArrayBuffer !== 'undefined'
@@ -107,13 +252,30 @@ def hello := "Hello, WASM!"
     console.log('SharedArrayBuffer available:', hasSharedArrayBuffer)
     if (!isCrossOriginIsolated) {
       console.warn('⚠️ Parent page is NOT cross-origin isolated!')
-      console.warn('   pthreads will NOT work in iframes.')
+      console.warn('   pthreads will NOT work in the runner worker.')
     } else {
       console.log('✓ Parent is cross-origin isolated')
     }
     console.log('=============================================')
   }, [])
 
+  // Toolchains the server has; nothing can load before this is known
+  useEffect(() => {
+    loadToolchains()
+      .then(setToolchainIndex)
+      .catch(err => {
+        console.error('Failed to load the toolchain index:', err)
+        setError(err instanceof Error ? err.message : String(err))
+        setStatus('error')
+      })
+  }, [])
+
+  const toolchain = useMemo((): Toolchain | null => {
+    if (!toolchainIndex) return null
+    const { toolchains, defaultVersion } = toolchainIndex
+    return toolchains.find(t => t.version === toolchainVersion) ?? toolchains.find(t => t.version === defaultVersion)!
+  }, [toolchainIndex, toolchainVersion])
+
   const appendOutput = useCallback((text: string, isError = false) => {
     if (isError) {
       setError(prev => prev + text + '\n')
@@ -122,209 +284,430 @@ def hello := "Hello, WASM!"
     }
   }, [])
 
+  const updateFiles = useCallback((next: WorkspaceFile[]) => {
+    filesRef.current = next
+    setFiles(next)
+  }, [])
+
+  // Edits move the diagnostics drawn in the editor along with the code they point at
+  const handleCodeChange = useCallback((code: string) => {
+    const before = contentOf(filesRef.current, activeFile)
+    setMarkers(prev => ({ ...prev, [activeFile]: mapMarkers(prev[activeFile] ?? [], before, code) }))
+    updateFiles(filesRef.current.map(f => f.name === activeFile ? { ...f, content: code } : f))
+    setBufferVersion(v => v + 1)
+  }, [activeFile, updateFiles])
+
+  const addFile = useCallback(() => {
+    const name = window.prompt('New file, named by its module path (e.g. Foo/Bar.lean for Foo.Bar):')?.trim()
+    if (!name) return
+    const problem = validateFileName(name, filesRef.current)
+    if (problem) {
+      window.alert(problem)
+      return
+    }
+    updateFiles([...filesRef.current, { name, content: '' }])
+    setActiveFile(name)
+    setBufferVersion(v => v + 1)
+  }, [updateFiles])
+
+  useEffect(() => {
+    activeFileRef.current = activeFile
+  }, [activeFile])
+
+  // Save the buffers once edits pause
+  useEffect(() => {
+    if (files === sharedLink.link?.files) return
+    const timer = setTimeout(() => saveWorkspace({ files, activeFile }), WORKSPACE_SAVE_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [files, activeFile, sharedLink])
+
+  const removeFile = useCallback((name: string) => {
+    const remaining = filesRef.current.filter(f => f.name !== name)
+    if (remaining.length === 0 || !window.confirm(`Remove ${name} from the workspace?`)) return
+    updateFiles(remaining)
+    setMarkers(prev => Object.fromEntries(Object.entries(prev).filter(([file]) => file !== name)))
+    if (activeFile === name) setActiveFile(remaining[0].name)
+    setBufferVersion(v => v + 1)
+  }, [activeFile, updateFiles])
+
+  // Show `diagnostics`, reported for `text` of `fileName`, in the editor (the file may
+  // have moved on)
+  const showDiagnostics = useCallback((diagnostics: LeanDiagnostic[], text: string, fileName: string) => {
+    const current = contentOf(filesRef.current, fileName)
+    setMarkers(prev => ({ ...prev, [fileName]: mapMarkers(diagnosticsToMarkers(diagnostics, text), text, current) }))
+  }, [])
+
+  // Check the imports of `targets` before starting Lean, which fails on a missing module
+  // with a confusing error. Missing ones are shown like Lean's messages; returns whether
+  // the run can go on.
+  const checkImports = useCallback(async (targets: WorkspaceFile[], isCurrent: () => boolean): Promise<boolean> => {
+    if (!toolchain) throw new Error('Lean WASM not loaded yet')
+    const locals = localModules(filesRef.current)
+    const found = await Promise.all(targets.map(f => unknownImportDiagnostics(toolchain, f, locals)))
+    if (!isCurrent()) return false
+    if (found.every(diagnostics => diagnostics.length === 0)) return true
+    targets.forEach((file, i) => showDiagnostics(found[i], file.content, file.name))
+    found.flat().forEach(d => appendOutput(JSON.stringify(d)))
+    appendOutput('Not run: imported modules are missing from the library', true)
+    return false
+  }, [toolchain, showDiagnostics, appendOutput])
 
-  // Create a fresh WASM module instance using an iframe for isolation
-  // Note: Library loading is now handled by runInIframe, not createFreshModule
-  const createFreshModule = useCallback((): Promise<LeanModule> => {
-    return new Promise((resolve, reject) => {
-      console.log('Creating fresh WASM module instance via iframe...')
-      
-      // Remove old iframe if exists
-      if (scriptRef.current) {
-        (scriptRef.current as unknown as HTMLIFrameElement).remove()
-        scriptRef.current = null
-      }
-      moduleRef.current = null
-      
-      // Create iframe for isolation - each iframe gets a fresh JS environment
-      const iframe = document.createElement('iframe')
-      iframe.style.display = 'none'
-      
-      // For SharedArrayBuffer/pthreads to work in the iframe:
-      // 1. Parent must be cross-origin isolated (COOP/COEP headers) ✓
-      // 2. iframe must be same-origin (it is - served from same Vite server) ✓
-      // 3. No restrictive sandbox attribute that blocks SharedArrayBuffer
-      // See: https://developer.mozilla.org/en-US/docs/Web/API/crossOriginIsolated
-      
-      // Store reference (reusing scriptRef to avoid adding new refs)
-      scriptRef.current = iframe as unknown as HTMLScriptElement
-      
-      // Message handler for this specific module creation
-      const messageHandler = (event: MessageEvent) => {
-        if (event.source !== iframe.contentWindow) return
-        
-        const { type, data } = event.data || {}
-        
-        if (type === 'iframe_ready') {
-          console.log('Iframe ready, will configure on run...')
-          // Create a proxy module - actual execution happens via runInIframe
-          const proxyModule: LeanModule = {
-            FS: {
-              writeFile: () => {},
-              readFile: () => { throw new Error('readFile not implemented') },
-              mkdir: () => {},
-              readdir: () => [],
-              stat: () => ({ isDirectory: () => false }),
-              cwd: () => '/workspace',
-              chdir: () => {},
-            },
-            ENV: {},
-            print: appendOutput,
-            printErr: (text: string) => appendOutput(text, true),
-            ccall: () => {
-              throw new Error('Use runInIframe instead of direct ccall')
-            },
-          }
-          moduleRef.current = proxyModule
-          window.removeEventListener('message', messageHandler)
-          resolve(proxyModule)
-        } else if (type === 'stdout') {
-          appendOutput(data)
-        } else if (type === 'stderr') {
-          appendOutput(data, true)
-        } else if (type === 'progress') {
-          setLoadingProgress(data)
-        } else if (type === 'error') {
-          console.error('Iframe error:', data)
-          window.removeEventListener('message', messageHandler)
-          reject(new Error(data))
-        }
-      }
-      
-      window.addEventListener('message', messageHandler)
-      
-      // Load the iframe content from separate HTML file
-      iframe.src = '/lean-worker-simple.html'
-      document.body.appendChild(iframe)
-      
-      // Timeout for loading
-      setTimeout(() => {
-        if (!moduleRef.current) {
-          window.removeEventListener('message', messageHandler)
-          reject(new Error('Iframe initialization timeout'))
-        }
-      }, 120000)  // Increased timeout for library loading
+  // Put the cursor on a diagnostic, switching to its file first; markers know where it
+  // moved since it was reported
+  const revealDiagnostic = useCallback((diagnostic: LeanDiagnostic) => {
+    const fileName = workspaceFileName(diagnostic.fileName)
+    if (fileName !== activeFile && filesRef.current.some(f => f.name === fileName)) {
+      pendingRevealRef.current = diagnostic
+      setActiveFile(fileName)
+      return
+    }
+    const marker = markers[activeFile]?.find(m => sameDiagnostic(m.diagnostic, diagnostic))
+    if (marker) {
+      editorRef.current?.reveal(marker.start)
+      return
+    }
+    const code = contentOf(filesRef.current, activeFile)
+    const lineText = code.split('\n')[diagnostic.pos.line - 1] ?? ''
+    const character = columnToCharacter(lineText, diagnostic.pos.column)
+    editorRef.current?.reveal(positionToOffset(code, { line: diagnostic.pos.line - 1, character }))
+  }, [activeFile, markers])
+
+  // A diagnostic in another file is revealed once the editor shows that file
+  useEffect(() => {
+    const diagnostic = pendingRevealRef.current
+    if (!diagnostic) return
+    pendingRevealRef.current = null
+    revealDiagnostic(diagnostic)
+  }, [revealDiagnostic])
+
+  const poolOptions = useMemo((): RunnerPoolOptions => {
+    const size = Number(poolSize)
+    const memoryMb = Number(poolMemoryMb)
+    return {
+      size: Number.isFinite(size) && size >= 0 ? Math.floor(size) : DEFAULT_POOL_OPTIONS.size,
+      memoryCapBytes: memoryMb > 0 ? memoryMb * 1024 * 1024 : DEFAULT_POOL_OPTIONS.memoryCapBytes,
+      runtimeUrl: toolchain?.baseUrl ?? DEFAULT_POOL_OPTIONS.runtimeUrl,
+      cacheName,
+    }
+  }, [poolSize, poolMemoryMb, toolchain, cacheName])
+
+  // Keep the pool in line with the settings, the toolchain and the persistent cache generation
+  useEffect(() => {
+    poolRef.current?.setOptions(poolOptions)
+  }, [poolOptions])
+
+  // Terminate every runner when the app goes away
+  useEffect(() => () => {
+    runnerRef.current?.dispose()
+    lspRef.current?.stop()
+    poolRef.current?.dispose()
+  }, [])
+
+  // Start a run: a run still in progress is cancelled and, from now on, ignored.
+  // Returns whether the new run is still the current one.
+  const beginRun = useCallback((): (() => boolean) => {
+    const generation = ++runGenerationRef.current
+    runnerRef.current?.cancel()
+    cancelRequestedRef.current = false
+    setStatus('running')
+    setOutput('')
+    setError('')
+    setLastRun(null)
+    return () => runGenerationRef.current === generation
+  }, [])
+
+  // Take a ready runner from the pool. main() is one-shot, so every run gets its own
+  // instance; the previous one is terminated along with its pthreads.
+  const createRunner = useCallback(async (libraryKey: string | null = null, isCurrent: () => boolean = () => true): Promise<LeanRunner> => {
+    runnerRef.current?.dispose()
+    runnerRef.current = null
+    
+    const pool = poolRef.current
+    if (!pool) throw new Error('Lean WASM not loaded yet')
+    const runner = await pool.acquire(libraryKey)
+    // A newer run started while this one waited for a runner
+    if (!isCurrent()) {
+      runner.dispose()
+      throw new Error('Superseded by a newer run')
+    }
+    runner.setCallbacks({
+      onStdout: (text) => appendOutput(text),
+      onStderr: (text) => appendOutput(text, true),
+      onProgress: setLoadingProgress,
     })
+    runnerRef.current = runner
+    return runner
   }, [appendOutput])
 
-  // Run Lean command in the iframe (one-shot mode)
-  const runInIframe = useCallback((
+  // Run Lean in the current runner (one-shot mode)
+  const runInRunner = useCallback(async (
     args: string[], 
-    code?: string, 
-    path?: string, 
-    libraryFiles?: Map<string, Uint8Array>
-  ): Promise<number> => {
-    return new Promise((resolve, reject) => {
-      const iframe = scriptRef.current as unknown as HTMLIFrameElement
-      if (!iframe?.contentWindow) {
-        reject(new Error('Iframe not ready'))
-        return
+    { code, path, library, libraryKey, packMs = null, files, outputs, stdin, loadEager }: RunOptions = {}
+  ): Promise<RunResult> => {
+    const runner = runnerRef.current
+    if (!runner) throw new Error('Runner not ready')
+    
+    // Filled in by sendBlob and the runner callbacks
+    let transfer = null as TransferInfo | null
+    const sampleHeap = () => {
+      const heap = sampleHeapSize()
+      if (transfer && heap !== null && (transfer.heapPeak === null || heap > transfer.heapPeak)) {
+        transfer.heapPeak = heap
       }
+    }
+    
+    runner.setCallbacks({
+      onLibraryMounted: (ms) => {
+        if (!transfer) return
+        transfer.mountMs = ms
+        sampleHeap()
+        setTransferInfo({ ...transfer })
+      },
+      onLazyStats: (files, bytes, cached) => {
+        setLibraryInfo(prev => prev && { ...prev, fetchedCount: files, fetchedBytes: bytes })
+        appendOutput(`Lazy library: fetched ${files} files (${formatBytes(bytes)}), ${cached} from the persistent cache\n`)
+      },
+    })
+    
+    const sendBlob = async (blob: LibraryBlob, blobPackMs: number | null) => {
+      const shared = isSharedLibrary(blob)
+      console.log(`Sending ${blob.entries.length} library files to runner (${shared ? 'shared' : 'copied'})...`)
+      setLoadingProgress(`Sending ${blob.entries.length} library files...`)
       
-      const handler = (event: MessageEvent) => {
-        if (event.source !== iframe.contentWindow) return
-        const { type, exitCode, error, data } = event.data || {}
-        
-        if (type === 'library_received') {
-          console.log('Library received by iframe')
-          // Now start Lean
-          iframe.contentWindow?.postMessage({ type: 'start' }, '*')
-        } else if (type === 'done') {
-          window.removeEventListener('message', handler)
-          resolve(exitCode)
-        } else if (type === 'error') {
-          window.removeEventListener('message', handler)
-          reject(new Error(error || data))
-        } else if (type === 'stdout') {
-          appendOutput(data)
-        } else if (type === 'stderr') {
-          appendOutput(data, true)
-        } else if (type === 'progress') {
-          setLoadingProgress(data)
-        }
+      const heapBefore = sampleHeapSize()
+      transfer = {
+        shared,
+        bytes: blob.byteLength,
+        packMs: blobPackMs,
+        transferMs: null,
+        mountMs: null,
+        wasmBefore: runner.memoryBytes,
+        wasmAfter: null,
+        heapBefore,
+        heapPeak: heapBefore,
       }
-      
-      window.addEventListener('message', handler)
-      
-      // Step 1: Send configuration
-      console.log('Sending configuration to iframe:', { args, code: !!code, path })
-      iframe.contentWindow.postMessage({ 
-        type: 'configure', 
-        args, 
-        code, 
-        path 
-      }, '*')
-      
-      // Step 2: Send library files if provided
-      if (libraryFiles && libraryFiles.size > 0) {
-        console.log(`Sending ${libraryFiles.size} library files to iframe...`)
-        setLoadingProgress(`Sending ${libraryFiles.size} library files...`)
-        
-        // Convert Map to array for postMessage
-        const filesArray: Array<{name: string, data: ArrayBuffer}> = []
-        libraryFiles.forEach((data, name) => {
-          const copy = new ArrayBuffer(data.byteLength)
-          new Uint8Array(copy).set(data)
-          filesArray.push({ name, data: copy })
-        })
-        
-        try {
-          iframe.contentWindow.postMessage({ 
-            type: 'load_library', 
-            files: filesArray 
-          }, '*')
-          console.log('postMessage for load_library sent successfully')
-        } catch (e) {
-          console.error('Failed to send library files:', e)
-        }
-      } else {
-        // No library needed, start immediately
-        console.log('No library files, starting Lean...')
-        iframe.contentWindow.postMessage({ type: 'start' }, '*')
+      const transferStart = performance.now()
+      await runner.loadLibrary(blob)
+      transfer.transferMs = performance.now() - transferStart
+      sampleHeap()
+      setTransferInfo({ ...transfer })
+    }
+    
+    // Step 1: Send configuration
+    console.log('Sending configuration to runner:', { args, code: !!code, path })
+    await runner.configure({ args, code, path, files, outputs, stdin })
+    
+    // Step 2: Send library files if provided (a pooled runner may already have them)
+    if (library && libraryKey !== undefined && runner.libraryKey === libraryKey) {
+      console.log('Library already mounted in the pre-warmed runner')
+      setTransferInfo(null)
+    } else if (library && 'baseUrl' in library) {
+      console.log(`Requesting lazy library (${library.files.length} files)...`)
+      const { lazy } = await runner.loadLibrary(library)
+      if (!lazy) {
+        console.warn('Runner cannot load lazily, falling back to eager loading')
+        appendOutput('Lazy library loading unavailable, loading eagerly\n')
+        if (!loadEager) throw new Error('Lazy library loading is not supported by the runner')
+        const eager = await loadEager()
+        await sendBlob(eager.blob, eager.packMs)
       }
-      
-      // Timeout
-      setTimeout(() => {
-        window.removeEventListener('message', handler)
-        reject(new Error('Lean execution timeout'))
-      }, 120000)
-    })
+    } else if (library && library.entries.length > 0) {
+      await sendBlob(library, packMs)
+    }
+    
+    // Step 3: Run
+    // Stop may have been pressed while the library was still loading
+    if (cancelRequestedRef.current) runner.cancel()
+    const limitS = Number(wallTimeLimit)
+    const result = await runner.start(limitS > 0 ? limitS * 1000 : undefined)
+    sampleHeap()
+    if (transfer) {
+      transfer.wasmAfter = result.memoryBytes ?? null
+      setTransferInfo({ ...transfer })
+    }
+    return result
+  }, [appendOutput, wallTimeLimit])
+
+  // Record how a run ended and print it under the output
+  const reportRunResult = useCallback((result: RunResult) => {
+    setLastRun(result)
+    appendOutput(`\n${describeRunResult(result)}`, result.outcome === 'abort')
   }, [appendOutput])
 
-  // Pre-fetch the file list (lightweight)
-  const loadFileList = useCallback(async () => {
+  // Report a failure, or a cancellation if Stop interrupted setting up the run
+  const reportRunError = useCallback((err: unknown) => {
+    if (cancelRequestedRef.current) {
+      reportRunResult({ outcome: 'cancel', exitCode: null, durationMs: 0 })
+    } else {
+      setError(err instanceof Error ? err.message : String(err))
+    }
+  }, [reportRunResult])
+
+  // Stop the current run: terminates the runner (and its pthreads) right away
+  const stopRun = useCallback(() => {
+    cancelRequestedRef.current = true
+    runnerRef.current?.cancel()
+  }, [])
+
+  // Pack the library into a shared blob, reusing the previous one when the file set is unchanged
+  const getLibraryBlob = useCallback((files: Map<string, Uint8Array>): { blob: LibraryBlob; packMs: number | null; key: string } => {
+    const key = [...files.keys()].join('\n')
+    if (libraryBlobRef.current?.key === key) {
+      return { blob: libraryBlobRef.current.blob, packMs: null, key }
+    }
+    const start = performance.now()
+    const blob = packLibrary(files)
+    libraryBlobRef.current = { key, blob }
+    return { blob, packMs: performance.now() - start, key }
+  }, [])
+
+  // Pre-fetch the file list (lightweight) and select the persistent cache generation
+  // Returns the cache name (null when the persistent cache is disabled)
+  const loadFileList = useCallback(async (toolchain: Toolchain): Promise<string | null> => {
     setLoadingProgress('Loading library file list...')
-    const files = await fetchCompleteFileList()
+    const files = await fetchCompleteFileList(toolchain)
+    const linkToolchain = sharedLink.link?.toolchain
+    if (linkToolchain === toolchainVersion && !toolchainIndex?.toolchains.some(t => t.version === linkToolchain)) {
+      appendOutput(`Note: the shared link was made with Lean ${linkToolchain}, which this playground doesn't serve; running ${toolchain.version}\n`)
+    }
+    let name: string | null = null
+    try {
+      const m = await loadManifest(toolchain)
+      setModuleNames(Object.keys(m.modules))
+      // Each toolchain keeps its own cache generations
+      name = await initCache(toolchain, m.generated)
+      setCacheName(name)
+    } catch (e) {
+      console.warn('Persistent cache disabled (manifest unavailable):', e)
+    }
     setManifestLoaded(true)
     console.log(`File list loaded: ${files.length} files`)
+    return name
+  }, [sharedLink, toolchainIndex, toolchainVersion, appendOutput])
+
+  // Forget in-memory copies too so a cleared cache really re-downloads
+  const handleCacheCleared = useCallback(() => {
+    loadedOleansRef.current.clear()
+    missingOleansRef.current.clear()
+    bundleLoadedRef.current = false
+    libraryBlobRef.current = null
   }, [])
 
-  // Load ALL .olean files (complete library)
-  const loadAllOleans = useCallback(async (): Promise<Map<string, Uint8Array>> => {
-    // If already cached, return from cache
-    if (loadedOleansRef.current.size > 0) {
-      console.log(`Using cached ${loadedOleansRef.current.size} .olean files`)
-      return loadedOleansRef.current
+  // Refuse library files written by another Lean build than the runtime's (or, if
+  // `lean --version` couldn't be read, the manifest's toolchain); Lean would fail on
+  // them with an obscure error
+  const checkLibraryBuild = useCallback(async (files: Iterable<[string, Uint8Array]>) => {
+    let expected = runtimeBuildRef.current
+    let source = 'reported by lean.wasm'
+    if (!expected) {
+      const version = toolchain && (await loadManifest(toolchain).catch(() => null))?.toolchain
+      if (!version) return
+      expected = { version, githash: null }
+      source = 'the toolchain in lean-manifest.json'
+    }
+    const mismatch = libraryBuildMismatch(files, expected, source)
+    if (mismatch) throw new Error(mismatch)
+  }, [toolchain])
+
+  // Load the .olean files needed by `code`: the manifest import closure when it
+  // resolves, the complete library otherwise. Files already in loadedOleansRef are reused.
+  // Imports of `locals` are workspace modules and don't come from the library.
+  const loadLibrary = useCallback(async (code: string, locals: ReadonlySet<string>): Promise<Map<string, Uint8Array>> => {
+    if (!toolchain) throw new Error('Lean WASM not loaded yet')
+    setLoadingProgress('Resolving imports...')
+    const plan = await planLibraryFiles(toolchain, code, locals)
+    if (plan.mode === 'full') {
+      console.warn(`Using full library: ${plan.reason}`)
     }
     
-    setLoadingProgress('Loading file list...')
-    const fileList = await fetchCompleteFileList()
-    console.log(`File list has ${fileList.length} entries`)
-    appendOutput(`Loading all ${fileList.length} library files...\n`)
+    const cache = loadedOleansRef.current
+    let toFetch = plan.paths.filter(p => !cache.has(p) && !missingOleansRef.current.has(p))
+    let fetchedCount = 0
+    let fetchedBytes = 0
+    let usedDelivery: LibraryDelivery = 'files'
     
-    setLoadingProgress(`Downloading ${fileList.length} library files...`)
-    const files = await fetchAllOleanFiles((loaded, total) => {
-      setLoadingProgress(`Downloading: ${loaded}/${total} files`)
-    })
+    if (toFetch.length > 0 && delivery === 'bundle' && !bundleLoadedRef.current) {
+      setLoadingProgress('Downloading library bundle...')
+      try {
+        const bundle = await fetchLibraryBundle(toolchain, (received, total) => {
+          setLoadingProgress(total > 0
+            ? `Downloading bundle: ${formatBytes(received)} / ${formatBytes(total)}`
+            : `Downloading bundle: ${formatBytes(received)}`)
+        })
+        bundle.files.forEach((data, path) => cache.set(path, data))
+        bundleLoadedRef.current = true
+        usedDelivery = 'bundle'
+        fetchedCount = bundle.files.size
+        fetchedBytes = bundle.compressedBytes
+        // Whatever the bundle doesn't contain doesn't exist on the server either
+        for (const path of toFetch) {
+          if (!cache.has(path)) missingOleansRef.current.add(path)
+        }
+        toFetch = []
+      } catch (err) {
+        console.warn('Library bundle unavailable, fetching individual files:', err)
+        appendOutput(`Library bundle unavailable (${err instanceof Error ? err.message : err}), fetching individual files\n`)
+      }
+    }
     
-    // Cache all files
-    files.forEach((data, path) => {
-      loadedOleansRef.current.set(path, data)
-    })
+    if (toFetch.length > 0) {
+      const size = formatBytes(await estimateDownloadSize(toolchain, toFetch))
+      setLoadingProgress(`Downloading ${toFetch.length} library files (${size})...`)
+      const fetched = await fetchOleanFiles(toolchain, toFetch, (loaded, total) => {
+        setLoadingProgress(`Downloading: ${loaded}/${total} files of ${size}`)
+      })
+      for (const path of toFetch) {
+        const data = fetched.get(path)
+        if (data) {
+          cache.set(path, data)
+          fetchedCount++
+          fetchedBytes += data.byteLength
+        } else {
+          missingOleansRef.current.add(path)
+        }
+      }
+    }
+    
+    const files = new Map<string, Uint8Array>()
+    for (const path of plan.paths) {
+      const data = cache.get(path)
+      if (data) files.set(path, data)
+    }
+    await checkLibraryBuild(files)
     
-    console.log(`Downloaded ${files.size} .olean files`)
+    const info: LibraryLoadInfo = {
+      mode: plan.mode,
+      delivery: usedDelivery,
+      reason: plan.reason,
+      fileCount: files.size,
+      fetchedCount,
+      fetchedBytes,
+    }
+    setLibraryInfo(info)
+    appendOutput(
+      `Library (${plan.mode === 'manifest' ? 'manifest imports' : 'full library'}): ` +
+      `${info.fileCount} files, fetched ${info.fetchedCount}` +
+      `${usedDelivery === 'bundle' ? ' from bundle' : ''} (${formatBytes(fetchedBytes)})` +
+      (plan.reason ? ` - ${plan.reason}` : '') + '\n'
+    )
     return files
-  }, [appendOutput])
+  }, [toolchain, appendOutput, delivery, checkLibraryBuild])
+
+  // The build of the runtime, from `lean --version` in a runner of the pool
+  const detectRuntimeBuild = useCallback(async (): Promise<LeanBuild | null> => {
+    const pool = poolRef.current
+    if (!pool) return null
+    const runner = await pool.acquire()
+    let output = ''
+    try {
+      runner.setCallbacks({ onStdout: (text) => { output += text + '\n' } })
+      await runner.configure({ args: ['--version'] })
+      await runner.start(VERSION_CHECK_TIMEOUT_MS)
+    } finally {
+      runner.dispose()
+    }
+    return parseLeanVersion(output)
+  }, [])
 
   // Initial load - verify WASM and load manifest
   const loadLean = useCallback(async () => {
@@ -333,6 +716,7 @@ def hello := "Hello, WASM!"
       setStatus('error')
       return
     }
+    if (!toolchain) return
 
     setStatus('loading')
     setLoadingProgress('Checking WASM files...')
@@ -341,23 +725,31 @@ def hello := "Hello, WASM!"
 
     try {
       // Check if lean.js exists in public folder
-      const checkResponse = await fetch('/lean-wasm/lean.js', { method: 'HEAD' })
+      const checkResponse = await fetch(`${toolchain.baseUrl}lean.js`, { method: 'HEAD' })
       if (!checkResponse.ok) {
-        throw new Error(`Lean WASM files not found. Please extract the WASM build to public/lean-wasm/`)
+        throw new Error(`Lean WASM files not found. Please extract the WASM build to public${toolchain.baseUrl}`)
       }
 
       // Load file list for complete library loading
+      let poolCacheName = cacheName
       if (!manifestLoaded) {
-        await loadFileList()
+        poolCacheName = await loadFileList(toolchain)
         appendOutput('Library file list loaded\n')
       }
 
       setLoadingProgress('Loading Lean WASM module (~100MB, please wait)...')
       
-      // Load the module once to verify it works and cache the WASM
-      await createFreshModule()
+      // Warm the first runner to verify the runtime comes up; the pool keeps it ready
+      poolRef.current ??= new RunnerPool({ ...poolOptions, cacheName: poolCacheName })
+      await poolRef.current.warm()
       
-      appendOutput('WASM module ready\n')
+      setLoadingProgress('Checking the Lean version...')
+      try {
+        runtimeBuildRef.current = await detectRuntimeBuild()
+      } catch (err) {
+        console.warn('Could not read the runtime version:', err)
+      }
+      appendOutput(`WASM module ready${runtimeBuildRef.current ? ` (Lean ${describeBuild(runtimeBuildRef.current)})` : ''}\n`)
       appendOutput('Libraries will be loaded on-demand based on your imports.\n')
       
       setWasmLoaded(true)
@@ -369,7 +761,7 @@ def hello := "Hello, WASM!"
       setError(err instanceof Error ? err.message : 'Unknown error')
       setStatus('error')
     }
-  }, [hasSharedArrayBuffer, manifestLoaded, loadFileList, createFreshModule, appendOutput])
+  }, [hasSharedArrayBuffer, toolchain, manifestLoaded, cacheName, poolOptions, loadFileList, detectRuntimeBuild, appendOutput])
 
   // Test with --version (simplest test)
   const testVersion = useCallback(async () => {
@@ -378,29 +770,27 @@ def hello := "Hello, WASM!"
       return
     }
 
-    setStatus('running')
-    setOutput('')
-    setError('')
+    const isCurrent = beginRun()
+    setOutputVersion(null)
     appendOutput('Running: lean --version\n')
-    appendOutput('(olean files are version 4.28.0-pre - should match!)\n\n')
     setLoadingProgress('Creating fresh WASM instance...')
 
     try {
-      // Create fresh iframe
-      await createFreshModule()
-      // Add small delay to let pthread workers spawn
-      await new Promise(resolve => setTimeout(resolve, 150))
+      // Take a pre-warmed runner (its pthread workers are already up)
+      await createRunner(null, isCurrent)
       setLoadingProgress('Workers ready, running...')
-      const exitCode = await runInIframe(['--version'])
-      appendOutput(`\nExit code: ${exitCode}`)
+      const result = await runInRunner(['--version'])
+      if (isCurrent()) reportRunResult(result)
     } catch (err) {
       console.error('Error running --version:', err)
-      setError(err instanceof Error ? err.message : String(err))
+      if (isCurrent()) reportRunError(err)
     } finally {
-      setLoadingProgress('')
-      setStatus('ready')
+      if (isCurrent()) {
+        setLoadingProgress('')
+        setStatus('ready')
+      }
     }
-  }, [wasmLoaded, appendOutput, createFreshModule, runInIframe])
+  }, [wasmLoaded, appendOutput, beginRun, createRunner, runInRunner, reportRunResult, reportRunError])
 
   // Test with --help
   const testHelp = useCallback(async () => {
@@ -409,66 +799,505 @@ def hello := "Hello, WASM!"
       return
     }
 
-    setStatus('running')
-    setOutput('')
-    setError('')
+    const isCurrent = beginRun()
+    setOutputVersion(null)
     appendOutput('Running: lean --help\n')
     setLoadingProgress('Creating fresh WASM instance...')
 
     try {
-      await createFreshModule()
-      // Add small delay to let pthread workers spawn
-      await new Promise(resolve => setTimeout(resolve, 150))
+      await createRunner(null, isCurrent)
       setLoadingProgress('Workers ready, running...')
-      const exitCode = await runInIframe(['--help'])
-      appendOutput(`\nExit code: ${exitCode}`)
+      const result = await runInRunner(['--help'])
+      if (isCurrent()) reportRunResult(result)
     } catch (err) {
       console.error('Error running --help:', err)
-      setError(err instanceof Error ? err.message : String(err))
+      if (isCurrent()) reportRunError(err)
     } finally {
-      setLoadingProgress('')
-      setStatus('ready')
+      if (isCurrent()) {
+        setLoadingProgress('')
+        setStatus('ready')
+      }
     }
-  }, [wasmLoaded, appendOutput, createFreshModule, runInIframe])
+  }, [wasmLoaded, appendOutput, beginRun, createRunner, runInRunner, reportRunResult, reportRunError])
 
-  // Run user's Lean code
-  const runLean = useCallback(async () => {
+  // Library for `code` as the FS mode asks for: a lazy file list or a packed blob.
+  // The key identifies it so pooled runners that already mounted it can be reused.
+  const prepareLibrary = useCallback(async (code: string, locals: ReadonlySet<string> = new Set()) => {
+    // Load the library files this code imports - cached across runs
+    const loadEager = async () => getLibraryBlob(await loadLibrary(code, locals))
+    let library: LibraryBlob | LazyLibrary
+    let libraryKey: string
+    let packMs: number | null = null
+    if (fsMode === 'lazy') {
+      if (!toolchain) throw new Error('Lean WASM not loaded yet')
+      setLoadingProgress('Resolving imports...')
+      const plan = await planLibraryFiles(toolchain, code, locals)
+      // Lean reads the files itself, so check the header of one file per package up
+      // front (only the sampled files are checked)
+      const unchecked = [...samplePerPackage(plan.paths)].filter(([root]) => !lazyBuildCheckedRef.current.has(root))
+      const heads = await Promise.all(unchecked.map(async ([root, path]) =>
+        ({ root, path, head: await fetchOleanHead(toolchain, path) })))
+      const fetched = heads.filter(h => h.head !== null)
+      await checkLibraryBuild(fetched.map(h => [h.path, h.head!]))
+      fetched.forEach(h => lazyBuildCheckedRef.current.add(h.root))
+      // Known sizes let Lean stat the files without downloading them
+      const known = await getLibraryFileInfo(toolchain).catch(() => null)
+      const sizes = known && Object.fromEntries(plan.paths.flatMap(p => known.has(p) ? [[p, known.get(p)!.size]] : []))
+      library = { baseUrl: libraryUrl(toolchain), files: plan.paths, ...(sizes && { sizes }), cacheName: getCacheName(toolchain) }
+      libraryKey = `lazy:${plan.paths.join('\n')}`
+      setLibraryInfo({
+        mode: plan.mode,
+        delivery: 'lazy',
+        reason: plan.reason,
+        fileCount: plan.paths.length,
+        fetchedCount: 0,
+        fetchedBytes: 0,
+      })
+      setTransferInfo(null)
+    } else {
+      const eager = await loadEager()
+      ;({ blob: library, packMs } = eager)
+      libraryKey = `files:${eager.key}`
+    }
+    return { library, libraryKey, packMs, loadEager }
+  }, [toolchain, fsMode, loadLibrary, getLibraryBlob, checkLibraryBuild])
+
+  // Run the workspace. Files other files import are compiled first, in import order,
+  // with `lean -o` into the workspace build directory; each file runs in its own runner
+  // with the modules compiled so far. A run started while another is in progress
+  // replaces it, so the output always belongs to the newest buffer that was run.
+  // Watch-mode checks are not saved to the history.
+  const runLean = useCallback(async (fromWatch = false) => {
     if (!wasmLoaded) {
       setError('Lean WASM not loaded yet')
       return
     }
 
-    setStatus('running')
-    setOutput('')
-    setError('')
+    const isCurrent = beginRun()
+    const workspace = filesRef.current
+    const version = bufferVersion
+    const startedAt = new Date().toISOString()
+    setOutputVersion(version)
 
-    const inputPath = '/workspace/input.lean'
     // Parse flags from the input field
     const flags = leanFlags.trim().split(/\s+/).filter(f => f.length > 0)
-    const args = [...flags, inputPath]
+    // maxHeartbeats is an ordinary Lean option, set with -D
+    const heartbeats = maxHeartbeats.trim()
+    const options = heartbeats ? ['-D', `maxHeartbeats=${heartbeats}`] : []
+    const patterns = collectPatterns.trim().split(/\s+/).filter(p => p.length > 0)
+    setOutputFiles(null)
 
     try {
-      // Load ALL .olean files (complete library) - cached after first load
-      const allFiles = await loadAllOleans()
+      if (!await checkImports(workspace, isCurrent)) return
+      const order = buildOrder(workspace)
+      const imported = new Set(workspace.flatMap(f => localImports(f, workspace)))
+      // One library covers the imports of every file
+      const { library, libraryKey, packMs, loadEager } = await prepareLibrary(
+        workspace.map(f => f.content).join('\n'),
+        localModules(workspace)
+      )
+      if (!isCurrent()) return
       
-      setLoadingProgress('Creating WASM instance...')
-      await createFreshModule()
-      await new Promise(resolve => setTimeout(resolve, 150))
-      setLoadingProgress('Running...')
-      const exitCode = await runInIframe(args, leanCode, inputPath, allFiles)
-      appendOutput(`\nExit code: ${exitCode}`)
+      // Idle runners mount this library ahead of time; the next run with the same
+      // imports then skips the transfer entirely
+      poolRef.current?.setLibrary(libraryKey, library)
+
+      const compiled: RunnerFile[] = []
+      const collected = new Map<string, Uint8Array>()
+      const failed = new Set<string>()
+      const diagnostics = new Map<string, LeanDiagnostic[]>()
+      let allStdout = ''
+      let durationMs = 0
+      let lastResult: RunResult | null = null
+      for (const [index, file] of order.entries()) {
+        if (order.length > 1) appendOutput(`── ${file.name} ──`)
+        const failedImports = localImports(file, workspace).filter(name => failed.has(name))
+        if (failedImports.length > 0) {
+          failed.add(file.name)
+          appendOutput(`Skipped: ${failedImports.join(', ')} failed to compile\n`, true)
+          continue
+        }
+
+        const inputPath = workspacePath(file.name)
+        const oleanPath = imported.has(file.name) ? oleanPathOf(file.name) : null
+        const args = [
+          ...flags,
+          ...options,
+          `--root=${WORKSPACE_DIR}`,
+          ...(oleanPath ? ['-o', oleanPath] : []),
+          inputPath,
+        ]
+        setLoadingProgress('Waiting for a ready Lean instance...')
+        const runner = await createRunner(libraryKey, isCurrent)
+        // Keep this run's stdout to put its diagnostics into the editor afterwards
+        let stdout = ''
+        runner.setCallbacks({
+          onStdout: (text) => {
+            stdout += text + '\n'
+            appendOutput(text)
+          },
+        })
+        setLoadingProgress(order.length > 1 ? `Running ${file.name} (${index + 1}/${order.length})...` : 'Running...')
+        const result = await runInRunner(args, {
+          code: file.content,
+          path: inputPath,
+          library,
+          libraryKey,
+          packMs,
+          files: [...compiled],
+          outputs: oleanPath ? [oleanPath] : undefined,
+          loadEager,
+        })
+        if (!isCurrent()) return
+        reportRunResult(result)
+        diagnostics.set(file.name, parseLeanOutput(stdout).diagnostics)
+        allStdout += stdout
+        durationMs += result.durationMs
+        lastResult = result
+        if (result.outcome !== 'exit') break
+
+        // Files the run wrote that the collect patterns ask for
+        if (patterns.length > 0) {
+          const found = await runner.readFiles(patterns)
+          if (!isCurrent()) return
+          found.forEach((data, path) => collected.set(path, data))
+          setOutputFiles(new Map(collected))
+        }
+
+        // Files importing this one need its .olean
+        if (!oleanPath) continue
+        const olean = result.files?.get(oleanPath)
+        if (result.exitCode === 0 && olean) compiled.push({ path: oleanPath, data: olean })
+        else failed.add(file.name)
+      }
+      workspaceOleansRef.current = compiled
+      for (const file of workspace) {
+        showDiagnostics(diagnostics.get(file.name) ?? [], file.content, file.name)
+      }
+      if (lastResult) setRunStdout(allStdout)
+      if (lastResult && !fromWatch) {
+        const record = createRunRecord({
+          time: startedAt,
+          files: workspace,
+          activeFile: activeFileRef.current,
+          flags: leanFlags,
+          outcome: lastResult.outcome,
+          exitCode: lastResult.exitCode,
+          durationMs,
+          diagnostics: [...diagnostics.values()].flat().map(d => ({ ...d, fileName: workspaceFileName(d.fileName) })),
+        }, allStdout)
+        setHistory(prev => saveHistory([record, ...prev]))
+      }
     } catch (err) {
+      if (!isCurrent()) return
       console.error('Error running code:', err)
-      setError(err instanceof Error ? err.message : String(err))
+      reportRunError(err)
+    } finally {
+      if (isCurrent()) {
+        setLoadingProgress('')
+        setStatus('ready')
+      }
+    }
+  }, [wasmLoaded, bufferVersion, leanFlags, maxHeartbeats, collectPatterns, appendOutput, beginRun, checkImports, createRunner, runInRunner, prepareLibrary, showDiagnostics, reportRunResult, reportRunError])
+
+  // Run `main` of the file in the editor with `lean --run`. Lean's messages (--json
+  // lines) go to the output panel; everything else the program prints, and its stdin,
+  // belong to the program panel. Workspace imports come from the last Run Code.
+  const runProgram = useCallback(async (programArgs: string[], input: string) => {
+    if (!wasmLoaded) {
+      setError('Lean WASM not loaded yet')
+      return
+    }
+
+    const isCurrent = beginRun()
+    const fileName = activeFile
+    const code = contentOf(filesRef.current, fileName)
+    setOutputVersion(bufferVersion)
+    setProgramOutput({ stdout: '', stderr: '', result: null })
+
+    // Messages must be JSON to be told apart from the program's output
+    const flags = leanFlags.trim().split(/\s+/).filter(f => f.length > 0)
+    if (!flags.includes('--json')) flags.unshift('--json')
+    const heartbeats = maxHeartbeats.trim()
+    const options = heartbeats ? ['-D', `maxHeartbeats=${heartbeats}`] : []
+    const inputPath = workspacePath(fileName)
+    const args = [...flags, ...options, `--root=${WORKSPACE_DIR}`, '--run', inputPath, ...programArgs]
+
+    const stdin = createStdinBuffer()
+    const writer = new StdinWriter(stdin)
+    writer.write(input)
+    writer.close()
+
+    try {
+      if (!await checkImports([{ name: fileName, content: code }], isCurrent)) return
+      const { library, libraryKey, packMs, loadEager } = await prepareLibrary(code, localModules(filesRef.current))
+      if (!isCurrent()) return
+      poolRef.current?.setLibrary(libraryKey, library)
+      setLoadingProgress('Waiting for a ready Lean instance...')
+      const runner = await createRunner(libraryKey, isCurrent)
+      const diagnostics: LeanDiagnostic[] = []
+      runner.setCallbacks({
+        onStdout: (text) => {
+          const diagnostic = parseDiagnosticLine(text)
+          if (diagnostic) {
+            diagnostics.push(diagnostic)
+            appendOutput(text)
+          } else {
+            setProgramOutput(prev => prev && { ...prev, stdout: prev.stdout + text + '\n' })
+          }
+        },
+        onStderr: (text) => setProgramOutput(prev => prev && { ...prev, stderr: prev.stderr + text + '\n' }),
+      })
+      setLoadingProgress('Running main...')
+      const result = await runInRunner(args, {
+        code,
+        path: inputPath,
+        library,
+        libraryKey,
+        packMs,
+        files: workspaceOleansRef.current,
+        stdin,
+        loadEager,
+      })
+      if (!isCurrent()) return
+      reportRunResult(result)
+      setProgramOutput(prev => prev && { ...prev, result })
+      showDiagnostics(diagnostics, code, fileName)
+    } catch (err) {
+      if (!isCurrent()) return
+      console.error('Error running main:', err)
+      reportRunError(err)
+      setProgramOutput(null)
     } finally {
+      if (isCurrent()) {
+        setLoadingProgress('')
+        setStatus('ready')
+      }
+    }
+  }, [wasmLoaded, activeFile, bufferVersion, leanFlags, maxHeartbeats, appendOutput, beginRun, checkImports, createRunner, runInRunner, prepareLibrary, showDiagnostics, reportRunResult, reportRunError])
+
+  // Put a past run's files and flags back into the editor, with its diagnostics
+  const restoreRun = useCallback((record: RunRecord) => {
+    updateFiles(record.files)
+    setActiveFile(record.files.some(f => f.name === record.activeFile) ? record.activeFile : record.files[0].name)
+    setLeanFlags(record.flags)
+    setMarkers({})
+    setBufferVersion(v => v + 1)
+    for (const file of record.files) {
+      showDiagnostics(record.diagnostics.filter(d => d.fileName === file.name), file.content, file.name)
+    }
+  }, [updateFiles, showDiagnostics])
+
+  const deleteRun = useCallback((id: string) => {
+    setHistory(prev => saveHistory(prev.filter(r => r.id !== id)))
+  }, [])
+
+  const clearHistory = useCallback(() => {
+    setHistory(saveHistory([]))
+  }, [])
+
+  // A shared link with autorun loads Lean and runs its code right away
+  useEffect(() => {
+    if (!autorunRef.current) return
+    if (!wasmLoaded) {
+      if (status === 'idle' && toolchain) loadLean()
+      return
+    }
+    autorunRef.current = false
+    runLean()
+  }, [wasmLoaded, status, toolchain, loadLean, runLean])
+
+  // Put the workspace, flags and toolchain into the URL and copy it
+  const shareLink = useCallback(async () => {
+    let url: string
+    try {
+      if (!toolchain) throw new Error('The toolchains are not known yet')
+      url = createPermalink({
+        files: filesRef.current,
+        activeFile,
+        flags: leanFlags,
+        toolchain: toolchain.version,
+        autorun: shareAutorun || undefined,
+      }, window.location.href)
+    } catch (err) {
+      setShareMessage({ text: err instanceof Error ? err.message : String(err), error: true })
+      return
+    }
+    window.history.replaceState(null, '', url)
+    try {
+      await navigator.clipboard.writeText(url)
+      setShareMessage({ text: 'Link copied', error: false })
+    } catch {
+      setShareMessage({ text: 'Link is in the address bar', error: false })
+    }
+  }, [toolchain, activeFile, leanFlags, shareAutorun])
+
+  // Watch mode: check the buffer once typing has paused for the configured delay
+  useEffect(() => {
+    if (!watchMode || !wasmLoaded) return
+    const delay = Number(watchDelay)
+    const timer = setTimeout(() => runLean(true), delay >= 0 ? delay : DEFAULT_WATCH_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [watchMode, watchDelay, wasmLoaded, runLean])
+
+  // Start a REPL session in its own runner. Its library covers the REPL program's
+  // imports and the editor buffer's, so the buffer's header can be elaborated in it.
+  const startReplSession = useCallback(async (callbacks: ReplCallbacks): Promise<ReplSession> => {
+    const pool = poolRef.current
+    if (!pool) throw new Error('Lean WASM not loaded yet')
+    const { library, libraryKey, loadEager } = await prepareLibrary(`${REPL_IMPORTS}\n${leanCode}`, localModules(filesRef.current))
+    setLoadingProgress('')
+    const runner = await pool.acquire(libraryKey)
+    return ReplSession.start(runner, { library, libraryKey, loadEager }, callbacks)
+  }, [leanCode, prepareLibrary])
+
+  // Run a file worker for the file in the editor in its own runner. It elaborates the
+  // file again after every edit and answers hover, definition and goal requests.
+  // Workspace imports come from the modules the last run compiled.
+  const startLanguageServer = useCallback(async () => {
+    const pool = poolRef.current
+    if (!pool) return
+    setLspStatus('starting')
+    setLspMessage(undefined)
+    setLspDiagnostics([])
+    setGoals(null)
+    try {
+      const fileName = activeFile
+      const { library, libraryKey, loadEager } = await prepareLibrary(leanCode, localModules(filesRef.current))
       setLoadingProgress('')
-      setStatus('ready')
+      const runner = await pool.acquire(libraryKey)
+      lspFileRef.current = fileName
+      lspHeaderRef.current = splitCommands(leanCode).header
+      lspTextRef.current = leanCode
+      const document = { uri: `file://${workspacePath(fileName)}`, text: leanCode, files: workspaceOleansRef.current }
+      const client = await LspClient.start(runner, { library, libraryKey, loadEager }, document, {
+        onDiagnostics: (diagnostics) => {
+          const text = lspTextRef.current
+          const converted = diagnostics.map(d => toLeanDiagnostic(d, fileName, text))
+          setLspDiagnostics(converted)
+          showDiagnostics(converted, text, fileName)
+        },
+        onProcessing: (ranges) => setLspProcessing(ranges.length > 0),
+        onOutput: (text) => console.log('[lean --worker]', text),
+        onExit: (result) => {
+          if (lspRef.current !== client) return
+          lspRef.current = null
+          setLspStatus('stopped')
+          setLspProcessing(false)
+          if (result.outcome !== 'cancel') setLspMessage(`Language server exited: ${describeRunResult(result)}`)
+        },
+      })
+      lspRef.current = client
+      setLspStatus('running')
+    } catch (err) {
+      console.error('Failed to start the language server:', err)
+      setLspMessage(err instanceof Error ? err.message : String(err))
+      setLspStatus('stopped')
+    }
+  }, [activeFile, leanCode, prepareLibrary, showDiagnostics])
+
+  const stopLanguageServer = useCallback(() => {
+    const client = lspRef.current
+    lspRef.current = null
+    client?.stop()
+    setLspStatus('stopped')
+    setLspProcessing(false)
+    setLspDiagnostics([])
+    setGoals(null)
+  }, [])
+
+  // Switch to another toolchain. Its runtime and library replace everything loaded so
+  // far: runners, the language server and downloaded files are dropped, and Lean is
+  // loaded again if it was loaded before.
+  const selectToolchain = useCallback((version: string) => {
+    if (version === toolchain?.version) return
+    runGenerationRef.current++
+    runnerRef.current?.dispose()
+    runnerRef.current = null
+    stopLanguageServer()
+    poolRef.current?.dispose()
+    poolRef.current = null
+    handleCacheCleared()
+    runtimeBuildRef.current = null
+    lazyBuildCheckedRef.current.clear()
+    reloadRef.current = wasmLoaded
+    setToolchainVersion(version)
+    setWasmLoaded(false)
+    setManifestLoaded(false)
+    setModuleNames([])
+    setCacheName(null)
+    setLibraryInfo(null)
+    setTransferInfo(null)
+    setLastRun(null)
+    setLoadingProgress('')
+    setStatus('idle')
+  }, [toolchain, wasmLoaded, stopLanguageServer, handleCacheCleared])
+
+  // Load the newly selected toolchain once the old one is gone
+  useEffect(() => {
+    if (!reloadRef.current || status !== 'idle') return
+    reloadRef.current = false
+    loadLean()
+  }, [status, loadLean])
+
+  // Send edits once typing pauses. The worker elaborates a fixed header, so a changed
+  // import list needs a fresh worker (and maybe a different library), as does
+  // switching to another file.
+  useEffect(() => {
+    const client = lspRef.current
+    if (!client || lspStatus !== 'running') return
+    if (lspFileRef.current === activeFile && lspTextRef.current === leanCode) return
+    const timer = setTimeout(() => {
+      if (lspFileRef.current !== activeFile || splitCommands(leanCode).header !== lspHeaderRef.current) {
+        stopLanguageServer()
+        startLanguageServer()
+      } else {
+        lspTextRef.current = leanCode
+        client.didChange(leanCode)
+      }
+    }, LSP_CHANGE_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [activeFile, leanCode, lspStatus, startLanguageServer, stopLanguageServer])
+
+  // Goals at the cursor; the request waits until the worker has elaborated that far
+  useEffect(() => {
+    const client = lspRef.current
+    if (!client || !cursor || lspStatus !== 'running') return
+    let current = true
+    const timer = setTimeout(() => {
+      client.goals(cursor)
+        .then(state => { if (current) setGoals(state) })
+        .catch(() => { if (current) setGoals(null) })
+    }, LSP_GOAL_DELAY_MS)
+    return () => {
+      current = false
+      clearTimeout(timer)
     }
-  }, [wasmLoaded, leanCode, leanFlags, appendOutput, createFreshModule, runInIframe, loadAllOleans])
+  }, [cursor, lspStatus, lspDiagnostics])
+
+  const getHover = useCallback((position: TextPosition) => {
+    const client = lspRef.current
+    return client ? client.hover(position) : Promise.resolve(null)
+  }, [])
+
+  const getDefinition = useCallback(async (position: TextPosition) => {
+    const client = lspRef.current
+    return client ? (await client.definition(position)).range : null
+  }, [])
+
+  // Names offered after `import`: workspace files and library modules
+  const fileNames = files.map(f => f.name).join('\n')
+  const importNames = useMemo(
+    () => [...new Set([...fileNames.split('\n').map(moduleNameOf), ...moduleNames])],
+    [fileNames, moduleNames]
+  )
 
   // Parse output for display
   const parsedOutput = useMemo(() => {
-    return parseLeanOutput(output)
+    const parsed = parseLeanOutput(output)
+    // Lean reports absolute paths; show and match them by workspace file name
+    const diagnostics = parsed.diagnostics.map(d => ({ ...d, fileName: workspaceFileName(d.fileName) }))
+    return { ...parsed, diagnostics }
   }, [output])
 
   // Auto-scroll output
@@ -501,7 +1330,7 @@ def hello := "Hello, WASM!"
 
         <div className="controls">
           {status === 'idle' && (
-            <button onClick={loadLean} className="btn btn-primary">
+            <button onClick={loadLean} disabled={!toolchain} className="btn btn-primary">
               Load Lean 4 WASM
             </button>
           )}
@@ -536,12 +1365,41 @@ def hello := "Hello, WASM!"
                 --help
               </button>
               <button 
-                onClick={runLean} 
-                disabled={status === 'running'}
+                onClick={() => runLean()}
+                disabled={status === 'running' && !watchMode}
                 className="btn btn-primary"
+                title={watchMode ? 'Check now; a check in progress is replaced' : undefined}
               >
-                {status === 'running' ? 'Running...' : 'Run Code'}
+                {status === 'running' && !watchMode ? 'Running...' : 'Run Code'}
               </button>
+              {status === 'running' && (
+                <button
+                  onClick={stopRun}
+                  className="btn btn-secondary"
+                  title="Terminate the running Lean instance"
+                >
+                  Stop
+                </button>
+              )}
+              <label className="watch-toggle" title="Re-check the buffer automatically once typing pauses">
+                <input
+                  type="checkbox"
+                  checked={watchMode}
+                  onChange={(e) => setWatchMode(e.target.checked)}
+                />
+                Watch
+              </label>
+              {watchMode && (
+                <input
+                  type="number"
+                  min={0}
+                  step={100}
+                  value={watchDelay}
+                  onChange={(e) => setWatchDelay(e.target.value)}
+                  className="input-small"
+                  title="Idle time before re-checking, in milliseconds"
+                />
+              )}
             </>
           )}
           {status === 'error' && (
@@ -549,6 +1407,72 @@ def hello := "Hello, WASM!"
               Retry
             </button>
           )}
+          <div className="share-controls">
+            <button
+              onClick={shareLink}
+              className="btn btn-secondary"
+              title="Copy a link with the code, flags and toolchain"
+            >
+              Share
+            </button>
+            <label className="watch-toggle" title="Whoever opens the link sees the code run right away">
+              <input
+                type="checkbox"
+                checked={shareAutorun}
+                onChange={(e) => setShareAutorun(e.target.checked)}
+              />
+              Run on open
+            </label>
+            {shareMessage && (
+              <span className={`library-info${shareMessage.error ? ' share-error' : ''}`}>{shareMessage.text}</span>
+            )}
+          </div>
+          {toolchainIndex && toolchain && (
+            <div className="toolchain-controls">
+              <label htmlFor="toolchain">Lean</label>
+              <select
+                id="toolchain"
+                value={toolchain.version}
+                onChange={(e) => selectToolchain(e.target.value)}
+                disabled={status === 'loading' || status === 'running' || toolchainIndex.toolchains.length < 2}
+                className="select-small"
+                title="Toolchain to run: each has its own runtime and library"
+              >
+                {toolchainIndex.toolchains.map(t => (
+                  <option key={t.version} value={t.version}>{t.version}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          <div className="pool-controls">
+            <label htmlFor="pool-size">Pool</label>
+            <input
+              id="pool-size"
+              type="number"
+              min={0}
+              max={8}
+              value={poolSize}
+              onChange={(e) => setPoolSize(e.target.value)}
+              className="input-small input-tiny"
+              title="Pre-warmed Lean instances kept ready (0 = start one per run)"
+            />
+            <input
+              type="number"
+              min={0}
+              step={256}
+              value={poolMemoryMb}
+              onChange={(e) => setPoolMemoryMb(e.target.value)}
+              className="input-small"
+              title="Memory cap for idle instances, in MB"
+            />
+            <span>MB</span>
+          </div>
+          <CacheControls
+            toolchain={toolchain}
+            cacheName={cacheName}
+            disabled={status === 'running' || status === 'loading'}
+            onCleared={handleCacheCleared}
+          />
           <span className={`status status-${status}`}>
             {status === 'idle' && 'Not loaded'}
             {status === 'loading' && 'Loading...'}
@@ -581,20 +1505,147 @@ def hello := "Hello, WASM!"
                   }}
                   title="Additional flags to pass to Lean (e.g., --json, --quiet, --stats)"
                 />
+                <input
+                  type="text"
+                  value={collectPatterns}
+                  onChange={(e) => setCollectPatterns(e.target.value)}
+                  placeholder="collect"
+                  className="input-small input-collect"
+                  title={'Files to read back after a run, e.g. *.c **/*.olean out/*.txt\n' +
+                    '(paths or globs, relative to /workspace); they are offered as downloads'}
+                />
+                <select
+                  value={delivery}
+                  onChange={(e) => setDelivery(e.target.value as LibraryDelivery)}
+                  className="select-small"
+                  title="How library files are downloaded"
+                >
+                  <option value="files">Per-file</option>
+                  <option value="bundle">Bundle</option>
+                </select>
+                <select
+                  value={fsMode}
+                  onChange={(e) => setFsMode(e.target.value as LibraryFsMode)}
+                  className="select-small"
+                  title="Write the library before Lean starts, or fetch files when Lean opens them"
+                >
+                  <option value="eager">Eager FS</option>
+                  <option value="lazy">Lazy FS</option>
+                </select>
+                <input
+                  type="number"
+                  min={0}
+                  value={wallTimeLimit}
+                  onChange={(e) => setWallTimeLimit(e.target.value)}
+                  className="input-small"
+                  placeholder="time"
+                  title="Wall-time limit per run in seconds (empty or 0 = no limit)"
+                />
+                <input
+                  type="number"
+                  min={0}
+                  value={maxHeartbeats}
+                  onChange={(e) => setMaxHeartbeats(e.target.value)}
+                  className="input-small"
+                  placeholder="heartbeats"
+                  title="maxHeartbeats option for Lean (empty = Lean's default, 0 = unlimited)"
+                />
               </div>
             </div>
-            <textarea
-              className="code-editor"
+            <div className="file-tabs">
+              {files.map(file => {
+                const errors = markers[file.name]?.filter(m => m.diagnostic.severity === 'error').length ?? 0
+                return (
+                  <div
+                    key={file.name}
+                    className={`file-tab${file.name === activeFile ? ' file-tab-active' : ''}`}
+                    onClick={() => setActiveFile(file.name)}
+                    title={`import ${moduleNameOf(file.name)}`}
+                  >
+                    {file.name}
+                    {errors > 0 && <span className="file-tab-errors">{errors}</span>}
+                    {files.length > 1 && (
+                      <button
+                        className="file-tab-close"
+                        onClick={(e) => {
+                          e.stopPropagation()
+                          removeFile(file.name)
+                        }}
+                        title={`Remove ${file.name}`}
+                      >
+                        ×
+                      </button>
+                    )}
+                  </div>
+                )
+              })}
+              <button onClick={addFile} className="file-tab-add" title="Add a file to the workspace">+</button>
+            </div>
+            <LeanEditor
+              ref={editorRef}
               value={leanCode}
-              onChange={(e) => setLeanCode(e.target.value)}
+              onChange={handleCodeChange}
+              onCursorChange={setCursor}
+              markers={markers[activeFile] ?? NO_MARKERS}
+              getHover={lspStatus === 'running' ? getHover : undefined}
+              getDefinition={lspStatus === 'running' ? getDefinition : undefined}
+              moduleNames={importNames}
               placeholder="Enter Lean 4 code here..."
-              spellCheck={false}
             />
           </div>
 
           <div className="panel">
             <div className="panel-header">
               <span>Output</span>
+              {libraryInfo && (
+                <span
+                  className="library-info"
+                  title={libraryInfo.reason ?? 'Import closure resolved from lean-manifest.json'}
+                >
+                  {libraryInfo.mode === 'manifest' ? 'manifest' : 'full library'}
+                  {' · '}{libraryInfo.fileCount} files
+                  {' · '}fetched {libraryInfo.fetchedCount}
+                  {libraryInfo.delivery === 'bundle' && ' from bundle'}
+                  {libraryInfo.delivery === 'lazy' && ' on demand'} ({formatBytes(libraryInfo.fetchedBytes)})
+                </span>
+              )}
+              {transferInfo && (
+                <span
+                  className="library-info"
+                  title={
+                    `Pack: ${transferInfo.packMs === null ? 'reused' : `${transferInfo.packMs.toFixed(0)} ms`}\n` +
+                    `Mount: ${transferInfo.mountMs === null ? '-' : `${transferInfo.mountMs.toFixed(0)} ms`}` +
+                    (transferInfo.heapBefore === null || transferInfo.heapPeak === null ? '' :
+                      `\nPage JS heap (Chromium only): ${formatBytes(transferInfo.heapBefore)} before, ` +
+                      `${formatBytes(transferInfo.heapPeak)} peak`)
+                  }
+                >
+                  {transferInfo.shared ? 'shared' : 'copied'} {formatBytes(transferInfo.bytes)}
+                  {transferInfo.transferMs !== null && ` in ${transferInfo.transferMs.toFixed(0)} ms`}
+                  {transferInfo.wasmBefore !== null && (
+                    ` · wasm memory ${formatBytes(transferInfo.wasmBefore)}` +
+                    (transferInfo.wasmAfter === null ? '' : ` → ${formatBytes(transferInfo.wasmAfter)}`)
+                  )}
+                </span>
+              )}
+              {outputVersion !== null && (
+                <span
+                  className={`library-info${outputVersion !== bufferVersion ? ' output-stale' : ''}`}
+                  title="Buffer version the output and diagnostics belong to"
+                >
+                  buffer v{outputVersion}
+                  {outputVersion !== bufferVersion && ` (now v${bufferVersion})`}
+                </span>
+              )}
+              {lastRun && (
+                <span
+                  className={`library-info run-outcome run-outcome-${lastRun.outcome}`}
+                  title={lastRun.message}
+                >
+                  {lastRun.outcome === 'exit' ? `exit ${lastRun.exitCode}` : lastRun.outcome}
+                  {' · '}{(lastRun.durationMs / 1000).toFixed(1)} s
+                </span>
+              )}
               <button 
                 onClick={() => { setOutput(''); setError('') }}
                 className="btn btn-small"
@@ -603,27 +1654,12 @@ def hello := "Hello, WASM!"
               </button>
             </div>
             <div className="output" ref={outputRef}>
-              {/* Show parsed diagnostics */}
-              {parsedOutput.diagnostics.length > 0 && (
-                <div className="diagnostics">
-                  {parsedOutput.diagnostics.map((diag, i) => (
-                    <div 
-                      key={i} 
-                      className={`diagnostic diagnostic-${diag.severity}`}
-                    >
-                      <div className="diagnostic-header">
-                        <span className="diagnostic-pos">
-                          {diag.pos.line}:{diag.pos.column}
-                        </span>
-                        <span className={`diagnostic-badge diagnostic-badge-${diag.severity}`}>
-                          {diag.severity === 'information' ? 'info' : diag.severity}
-                        </span>
-                      </div>
-                      <div className="diagnostic-data">{diag.data}</div>
-                    </div>
-                  ))}
-                </div>
-              )}
+              {/* Show parsed diagnostics, and lines that look like messages but don't parse */}
+              <DiagnosticsView
+                diagnostics={parsedOutput.diagnostics}
+                problems={parsedOutput.problems}
+                onSelect={revealDiagnostic}
+              />
               {/* Show raw lines (non-JSON output) */}
               {parsedOutput.rawLines.length > 0 && (
                 <div className="raw-output">
@@ -634,8 +1670,10 @@ def hello := "Hello, WASM!"
               )}
               {/* Show errors */}
               {error && <span className="output-error">{error}</span>}
+              {/* Files read back after the run */}
+              {outputFiles && <OutputFiles files={outputFiles} />}
               {/* Placeholder */}
-              {!output && !error && (
+              {!output && !error && !outputFiles && (
                 <span className="output-placeholder">
                   Output will appear here...
                 </span>
@@ -643,6 +1681,50 @@ def hello := "Hello, WASM!"
             </div>
           </div>
         </div>
+
+        <div className="repl-container program-container">
+          <ProgramPanel
+            output={programOutput}
+            running={status === 'running' && programOutput?.result === null}
+            disabled={!wasmLoaded || status === 'running'}
+            fileName={activeFile}
+            onRun={runProgram}
+          />
+        </div>
+
+        <div className="repl-container">
+          <HistoryPanel
+            history={history}
+            currentOutput={runStdout}
+            onRestore={restoreRun}
+            onDelete={deleteRun}
+            onClear={clearHistory}
+          />
+        </div>
+
+        <div className="repl-container">
+          <InfoviewPanel
+            status={lspStatus}
+            processing={lspProcessing}
+            cursor={cursor}
+            goals={goals}
+            diagnostics={lspDiagnostics}
+            message={lspMessage}
+            disabled={!wasmLoaded}
+            onSelectDiagnostic={revealDiagnostic}
+            onStart={startLanguageServer}
+            onStop={stopLanguageServer}
+          />
+        </div>
+
+        <div className="repl-container">
+          <ReplPanel
+            key={toolchain?.version}
+            code={leanCode}
+            disabled={!wasmLoaded}
+            startSession={startReplSession}
+          />
+        </div>
       </main>
 
       <footer className="footer">
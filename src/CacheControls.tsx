@@ -0,0 +1,80 @@
+import { useState, useEffect, useCallback } from 'react'
+import { getCacheStats, clearCache, prewarmCache } from './lean-cache'
+import type { CacheStats } from './lean-cache'
+import { fetchCompleteFileList } from './lean-loader'
+import type { Toolchain } from './toolchains'
+import { formatBytes } from './utils'
+
+interface CacheControlsProps {
+  toolchain: Toolchain | null   // Toolchain whose cache is shown, pre-warmed and cleared
+  // Cache name from initCache(); null while the cache is unavailable
+  cacheName: string | null
+  disabled?: boolean
+  onCleared?: () => void
+}
+
+// Shows the size of the selected toolchain's persistent WASM/.olean cache with clear and
+// pre-warm actions
+function CacheControls({ toolchain, cacheName, disabled, onCleared }: CacheControlsProps) {
+  const [stats, setStats] = useState<CacheStats | null>(null)
+  const [busy, setBusy] = useState<string>('')
+
+  const refresh = useCallback(async () => {
+    setStats(toolchain ? await getCacheStats(toolchain) : null)
+  }, [toolchain])
+
+  useEffect(() => {
+    if (cacheName) refresh()
+  }, [cacheName, refresh])
+
+  const clear = useCallback(async () => {
+    if (!toolchain) return
+    setBusy('Clearing...')
+    try {
+      await clearCache(toolchain)
+      onCleared?.()
+    } finally {
+      setBusy('')
+      await refresh()
+    }
+  }, [toolchain, refresh, onCleared])
+
+  const prewarm = useCallback(async () => {
+    if (!toolchain) return
+    setBusy('Preparing...')
+    try {
+      const fileList = await fetchCompleteFileList(toolchain)
+      await prewarmCache(toolchain, fileList, (loaded, total) => {
+        setBusy(`Caching ${loaded}/${total}`)
+      })
+    } catch (err) {
+      console.error('Pre-warm failed:', err)
+    } finally {
+      setBusy('')
+      await refresh()
+    }
+  }, [toolchain, refresh])
+
+  if (!cacheName) return null
+
+  return (
+    <div className="cache-controls" title={cacheName}>
+      <span className="cache-size">
+        Cache: {busy || (stats ? `${stats.entries} files, ${formatBytes(stats.bytes)}` : '...')}
+      </span>
+      <button onClick={prewarm} disabled={disabled || !!busy} className="btn btn-small">
+        Pre-warm
+      </button>
+      <button
+        onClick={clear}
+        disabled={disabled || !!busy}
+        className="btn btn-small"
+        title={toolchain ? `Delete the cached files of Lean ${toolchain.version}; other toolchains keep theirs` : undefined}
+      >
+        Clear cache
+      </button>
+    </div>
+  )
+}
+
+export default CacheControls
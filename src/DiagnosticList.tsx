@@ -0,0 +1,73 @@
+import { useState } from 'react'
+import type { LeanDiagnostic } from './diagnostics'
+
+interface DiagnosticListProps {
+  diagnostics: LeanDiagnostic[]
+  onSelect?: (diagnostic: LeanDiagnostic) => void  // Clicking a message, e.g. to jump to it
+  showFile?: boolean         // Messages come from several files
+  collapseLines?: number     // Messages longer than this show their first lines until expanded
+}
+
+// Identifies a message across re-parses of the output: a streaming run produces new
+// diagnostic objects for every chunk, but the same position and severity
+const expansionKey = (diag: LeanDiagnostic) =>
+  `${diag.fileName}:${diag.pos.line}:${diag.pos.column}:${diag.severity}`
+
+// Lean messages with position and severity badge
+function DiagnosticList({ diagnostics, onSelect, showFile, collapseLines }: DiagnosticListProps) {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set())
+
+  if (diagnostics.length === 0) return null
+
+  const toggle = (diag: LeanDiagnostic) => {
+    const key = expansionKey(diag)
+    setExpanded(prev => {
+      const next = new Set(prev)
+      if (!next.delete(key)) next.add(key)
+      return next
+    })
+  }
+
+  return (
+    <div className="diagnostics">
+      {diagnostics.map((diag, i) => {
+        const lines = diag.data.split('\n')
+        const collapsible = collapseLines !== undefined && lines.length > collapseLines
+        const collapsed = collapsible && !expanded.has(expansionKey(diag))
+        return (
+          <div
+            key={i}
+            className={`diagnostic diagnostic-${diag.severity}${onSelect ? ' diagnostic-link' : ''}`}
+            onClick={onSelect && (() => onSelect(diag))}
+            title={onSelect && 'Show in the editor'}
+          >
+            <div className="diagnostic-header">
+              <span className="diagnostic-pos">
+                {showFile && `${diag.fileName}:`}{diag.pos.line}:{diag.pos.column}
+              </span>
+              <span className={`diagnostic-badge diagnostic-badge-${diag.severity}`}>
+                {diag.severity === 'information' ? 'info' : diag.severity}
+              </span>
+            </div>
+            <div className="diagnostic-data">
+              {collapsed ? lines.slice(0, collapseLines).join('\n') : diag.data}
+            </div>
+            {collapsible && (
+              <button
+                className="diagnostic-expand"
+                onClick={(e) => {
+                  e.stopPropagation()
+                  toggle(diag)
+                }}
+              >
+                {collapsed ? `Show ${lines.length - collapseLines} more lines` : 'Show less'}
+              </button>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+export default DiagnosticList
@@ -0,0 +1,147 @@
+import { useMemo, useState } from 'react'
+import type { LeanDiagnostic, OutputProblem } from './diagnostics'
+import { EXPORT_FILES, exportDiagnostics } from './diagnostic-export'
+import type { DiagnosticExportFormat } from './diagnostic-export'
+import { downloadBytes } from './utils'
+import DiagnosticList from './DiagnosticList'
+
+interface DiagnosticsViewProps {
+  diagnostics: LeanDiagnostic[]
+  problems: OutputProblem[]  // Output lines that looked like messages but couldn't be read
+  onSelect?: (diagnostic: LeanDiagnostic) => void
+}
+
+// Messages longer than this are collapsed to their first lines
+const COLLAPSE_LINES = 8
+
+const SEVERITY_LABELS: Record<string, string> = { error: 'errors', warning: 'warnings', information: 'info' }
+
+const PROBLEM_LABELS: Record<OutputProblem['reason'], string> = {
+  'truncated': 'truncated',
+  'invalid-json': 'invalid JSON',
+  'not-a-diagnostic': 'not a message',
+}
+
+// Diagnostics of a run: counts per severity (click to hide or show), a text filter,
+// grouping by file, export, and output lines that couldn't be parsed
+function DiagnosticsView({ diagnostics, problems, onSelect }: DiagnosticsViewProps) {
+  const [hidden, setHidden] = useState<Set<string>>(new Set())  // Severities filtered out
+  const [query, setQuery] = useState('')
+  const [groupByFile, setGroupByFile] = useState(false)
+  const [collapsedFiles, setCollapsedFiles] = useState<Set<string>>(new Set())
+
+  const counts = useMemo(() => {
+    const result = new Map<string, number>()
+    for (const d of diagnostics) result.set(d.severity, (result.get(d.severity) ?? 0) + 1)
+    return result
+  }, [diagnostics])
+
+  const visible = useMemo(() => {
+    const text = query.trim().toLowerCase()
+    return diagnostics.filter(d => !hidden.has(d.severity) && (!text || d.data.toLowerCase().includes(text)))
+  }, [diagnostics, hidden, query])
+
+  const files = useMemo(() => {
+    const byFile = new Map<string, LeanDiagnostic[]>()
+    for (const d of visible) byFile.set(d.fileName, [...(byFile.get(d.fileName) ?? []), d])
+    return byFile
+  }, [visible])
+
+  if (diagnostics.length === 0 && problems.length === 0) return null
+
+  const toggle = (set: Set<string>, value: string) => {
+    const next = new Set(set)
+    if (!next.delete(value)) next.add(value)
+    return next
+  }
+
+  const download = (format: DiagnosticExportFormat) => {
+    const { fileName, type } = EXPORT_FILES[format]
+    downloadBytes(fileName, exportDiagnostics(visible, format), type)
+  }
+
+  return (
+    <div className="diagnostics-view">
+      <div className="diagnostics-toolbar">
+        {[...counts].map(([severity, count]) => (
+          <button
+            key={severity}
+            onClick={() => setHidden(prev => toggle(prev, severity))}
+            className={`diagnostic-count diagnostic-badge-${severity}${hidden.has(severity) ? ' diagnostic-count-hidden' : ''}`}
+            title={hidden.has(severity) ? 'Show these messages' : 'Hide these messages'}
+          >
+            {count} {SEVERITY_LABELS[severity] ?? severity}
+          </button>
+        ))}
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          className="input-small diagnostics-filter"
+          placeholder="filter"
+        />
+        <label className="watch-toggle">
+          <input type="checkbox" checked={groupByFile} onChange={(e) => setGroupByFile(e.target.checked)} />
+          By file
+        </label>
+        <select
+          value=""
+          onChange={(e) => download(e.target.value as DiagnosticExportFormat)}
+          className="select-small"
+          disabled={visible.length === 0}
+          title="Download the shown messages"
+        >
+          <option value="" disabled>Export</option>
+          <option value="json">JSON</option>
+          <option value="sarif">SARIF</option>
+          <option value="junit">JUnit XML</option>
+        </select>
+      </div>
+
+      {visible.length < diagnostics.length && (
+        <div className="output-placeholder">
+          Showing {visible.length} of {diagnostics.length} messages
+        </div>
+      )}
+
+      {groupByFile ? (
+        [...files].map(([fileName, fileDiagnostics]) => (
+          <div key={fileName} className="diagnostics-group">
+            <button
+              className="diagnostics-group-header"
+              onClick={() => setCollapsedFiles(prev => toggle(prev, fileName))}
+            >
+              {collapsedFiles.has(fileName) ? '▸' : '▾'} {fileName} ({fileDiagnostics.length})
+            </button>
+            {!collapsedFiles.has(fileName) && (
+              <DiagnosticList diagnostics={fileDiagnostics} onSelect={onSelect} collapseLines={COLLAPSE_LINES} />
+            )}
+          </div>
+        ))
+      ) : (
+        <DiagnosticList
+          diagnostics={visible}
+          onSelect={onSelect}
+          showFile={files.size > 1}
+          collapseLines={COLLAPSE_LINES}
+        />
+      )}
+
+      {problems.length > 0 && (
+        <div className="output-problems">
+          <div className="infoview-section">
+            {problems.length} output {problems.length === 1 ? 'line' : 'lines'} could not be read as messages
+          </div>
+          {problems.map((problem, i) => (
+            <div key={i} className="output-problem">
+              <span className="diagnostic-badge diagnostic-badge-warning">{PROBLEM_LABELS[problem.reason]}</span>
+              <code>{problem.line}</code>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default DiagnosticsView
@@ -0,0 +1,122 @@
+import { useMemo, useState } from 'react'
+import { parseLeanOutput } from './diagnostics'
+import { diffLines } from './line-diff'
+import type { RunRecord } from './local-store'
+import { downloadBytes } from './utils'
+
+interface HistoryPanelProps {
+  history: RunRecord[]       // Newest first
+  currentOutput: string      // Lean's stdout of the latest Run Code, as records keep it
+  onRestore: (record: RunRecord) => void
+  onDelete: (id: string) => void
+  onClear: () => void
+}
+
+// Output as comparable lines: one per message (file, position, severity, first line)
+// and the plain output lines
+function outputLines(output: string): string[] {
+  const { diagnostics, rawLines } = parseLeanOutput(output)
+  return [
+    ...diagnostics.map(d =>
+      `${d.fileName.split('/').pop()}:${d.pos.line}:${d.pos.column}: ${d.severity}: ${d.data.split('\n')[0]}`),
+    ...rawLines,
+  ]
+}
+
+function describeRecord(record: RunRecord): string {
+  const errors = record.diagnostics.filter(d => d.severity === 'error').length
+  const warnings = record.diagnostics.filter(d => d.severity === 'warning').length
+  const outcome = record.outcome === 'exit' ? `exit ${record.exitCode}` : record.outcome
+  return `${outcome} · ${errors} errors · ${warnings} warnings · ${(record.durationMs / 1000).toFixed(1)} s`
+}
+
+// Past Run Code results saved in the browser: restore one into the editor, compare its
+// output with the current one, delete or export them
+function HistoryPanel({ history, currentOutput, onRestore, onDelete, onClear }: HistoryPanelProps) {
+  const [comparing, setComparing] = useState<string | null>(null)
+  const compared = history.find(r => r.id === comparing) ?? null
+
+  const diff = useMemo(
+    () => compared ? diffLines(outputLines(compared.output), outputLines(currentOutput)) : [],
+    [compared, currentOutput]
+  )
+
+  return (
+    <div className="panel history-panel">
+      <div className="panel-header">
+        <span>History</span>
+        <div className="repl-actions">
+          <span className="library-info">{history.length} runs</span>
+          <button
+            onClick={() => downloadBytes('lean-run-history.json', JSON.stringify(history, null, 2), 'application/json')}
+            disabled={history.length === 0}
+            className="btn btn-small"
+          >
+            Export
+          </button>
+          <button
+            onClick={() => {
+              if (window.confirm('Delete the whole run history?')) onClear()
+            }}
+            disabled={history.length === 0}
+            className="btn btn-small"
+          >
+            Clear
+          </button>
+        </div>
+      </div>
+      <div className="history-body">
+        <div className="output history-list">
+          {history.map(record => (
+            <div key={record.id} className={`history-entry${record.id === comparing ? ' history-entry-active' : ''}`}>
+              <div className="history-entry-header">
+                <span className="diagnostic-pos">{new Date(record.time).toLocaleString()}</span>
+                <span className={`library-info run-outcome run-outcome-${record.outcome}`}>{describeRecord(record)}</span>
+              </div>
+              <code className="history-code">
+                {record.files.length > 1 && `${record.files.length} files · `}
+                {record.files.find(f => f.name === record.activeFile)?.content.split('\n')[0] ?? ''}
+              </code>
+              <div className="history-actions">
+                <button onClick={() => onRestore(record)} className="btn btn-small" title="Load its files and flags into the editor">
+                  Restore
+                </button>
+                <button
+                  onClick={() => setComparing(record.id === comparing ? null : record.id)}
+                  className="btn btn-small"
+                  title="Compare its messages and output with the latest run"
+                >
+                  {record.id === comparing ? 'Close' : 'Compare'}
+                </button>
+                <button onClick={() => onDelete(record.id)} className="btn btn-small">
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+          {history.length === 0 && (
+            <span className="output-placeholder">Runs of Run Code are saved here, in this browser only.</span>
+          )}
+        </div>
+        {compared && (
+          <div className="output history-diff">
+            <div className="infoview-section">
+              {new Date(compared.time).toLocaleTimeString()} (−) vs. latest run (+)
+              {compared.truncated && ' · saved output was truncated'}
+            </div>
+            {diff.every(line => line.kind === 'same') && (
+              <div className="output-placeholder">No differences</div>
+            )}
+            {diff.map((line, i) => (
+              <div key={i} className={`diff-line diff-${line.kind}`}>
+                {line.kind === 'same' ? ' ' : line.kind === 'added' ? '+' : '−'} {line.text}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default HistoryPanel
@@ -0,0 +1,85 @@
+import type { LeanDiagnostic } from './diagnostics'
+import type { GoalState } from './runner/lsp'
+import type { TextPosition } from './text-position'
+import DiagnosticList from './DiagnosticList'
+
+export type LanguageServerStatus = 'stopped' | 'starting' | 'running'
+
+interface InfoviewPanelProps {
+  status: LanguageServerStatus
+  processing: boolean        // The worker is still elaborating part of the file
+  cursor: TextPosition | null
+  goals: GoalState | null
+  diagnostics: LeanDiagnostic[]
+  message?: string           // Why the server stopped, or why it failed to start
+  disabled?: boolean
+  onSelectDiagnostic?: (diagnostic: LeanDiagnostic) => void
+  onStart: () => void
+  onStop: () => void
+}
+
+// Tactic state at the cursor and the language server's live diagnostics
+function InfoviewPanel({ status, processing, cursor, goals, diagnostics, message, disabled, onSelectDiagnostic, onStart, onStop }: InfoviewPanelProps) {
+  const atCursor = cursor
+    ? diagnostics.filter(d => d.pos.line - 1 <= cursor.line && (d.endPos ?? d.pos).line - 1 >= cursor.line)
+    : []
+
+  return (
+    <div className="panel infoview-panel">
+      <div className="panel-header">
+        <span>Infoview</span>
+        <div className="repl-actions">
+          <span className="library-info">
+            {status}
+            {status === 'running' && processing && ' · elaborating'}
+            {cursor && ` · ${cursor.line + 1}:${cursor.character}`}
+          </span>
+          {status === 'stopped' ? (
+            <button
+              onClick={onStart}
+              disabled={disabled}
+              className="btn btn-small"
+              title="Run a Lean file worker for the buffer: live diagnostics, hover, Ctrl+click for definitions"
+            >
+              Start language server
+            </button>
+          ) : (
+            <button onClick={onStop} disabled={status === 'starting'} className="btn btn-small">
+              {status === 'starting' ? 'Starting...' : 'Stop'}
+            </button>
+          )}
+        </div>
+      </div>
+      <div className="output infoview">
+        {message && <div className="output-placeholder">{message}</div>}
+        {status === 'running' && (
+          <>
+            <div className="infoview-section">Goals</div>
+            {goals && goals.goals.length > 0 ? (
+              goals.goals.map((goal, i) => <pre key={i} className="infoview-goal">{goal}</pre>)
+            ) : goals?.termGoal ? (
+              <pre className="infoview-goal">{goals.termGoal}</pre>
+            ) : (
+              <div className="output-placeholder">No goals at the cursor</div>
+            )}
+            {atCursor.length > 0 && (
+              <>
+                <div className="infoview-section">Messages at the cursor</div>
+                <DiagnosticList diagnostics={atCursor} onSelect={onSelectDiagnostic} />
+              </>
+            )}
+            <div className="infoview-section">All messages ({diagnostics.length})</div>
+            <DiagnosticList diagnostics={diagnostics} onSelect={onSelectDiagnostic} />
+          </>
+        )}
+        {status === 'stopped' && !message && (
+          <span className="output-placeholder">
+            Start the language server to see the goals at the cursor and diagnostics while you type.
+          </span>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default InfoviewPanel
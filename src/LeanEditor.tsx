@@ -0,0 +1,490 @@
+import { useState, useEffect, useLayoutEffect, useRef, useCallback, useImperativeHandle, useMemo } from 'react'
+import type { ReactNode, Ref } from 'react'
+import { offsetToPosition, positionToOffset, lineStarts } from './text-position'
+import type { TextPosition } from './text-position'
+import { severityRank } from './editor-markers'
+import type { EditorMarker } from './editor-markers'
+import { tokenize, matchBracket, nextLineIndent, expandAbbreviation, importNameAt, completeModuleName } from './lean-syntax'
+import type { Token } from './lean-syntax'
+
+// Pause before asking for hover information at the mouse
+const HOVER_DELAY_MS = 400
+
+// One indentation level
+const INDENT = '  '
+
+interface HoverState {
+  messages: EditorMarker[]   // Diagnostics under the mouse
+  text: string | null        // Language server hover
+  x: number                  // Relative to the editor
+  y: number
+}
+
+// Module names offered for the name typed after `import`
+interface CompletionState {
+  start: number              // Offset where the name starts
+  x: number                  // Below that offset, relative to the editor
+  y: number
+}
+
+// What the app can do with the editor from outside
+export interface LeanEditorHandle {
+  // Select a range (UTF-16 offsets), scroll it into view and focus the editor
+  reveal: (start: number, end?: number) => void
+}
+
+interface LeanEditorProps {
+  value: string
+  onChange: (value: string) => void
+  onCursorChange?: (position: TextPosition) => void
+  markers?: EditorMarker[]
+  // Hover text (markdown) at a position, or null; unset while no language server runs
+  getHover?: (position: TextPosition) => Promise<string | null>
+  // Where the symbol at a position is defined in this buffer; Ctrl/Cmd+click jumps there
+  getDefinition?: (position: TextPosition) => Promise<{ start: TextPosition; end: TextPosition } | null>
+  // Module names to complete after `import`
+  moduleNames?: readonly string[]
+  placeholder?: string
+  ref?: Ref<LeanEditorHandle>
+}
+
+// Monospace metrics of the textarea, for turning mouse coordinates into positions
+function measureText(textarea: HTMLTextAreaElement) {
+  const style = getComputedStyle(textarea)
+  const context = document.createElement('canvas').getContext('2d')
+  let charWidth = parseFloat(style.fontSize) * 0.6
+  if (context) {
+    context.font = `${style.fontSize} ${style.fontFamily}`
+    charWidth = context.measureText('x'.repeat(100)).width / 100
+  }
+  const lineHeight = parseFloat(style.lineHeight) || parseFloat(style.fontSize) * 1.2
+  return {
+    charWidth,
+    lineHeight,
+    paddingLeft: parseFloat(style.paddingLeft),
+    paddingTop: parseFloat(style.paddingTop),
+    tabSize: parseInt(style.tabSize) || 8,
+  }
+}
+
+// Position of the character under the mouse, or null past the end of a line or the text
+function positionAt(textarea: HTMLTextAreaElement, text: string, clientX: number, clientY: number): TextPosition | null {
+  const m = measureText(textarea)
+  const rect = textarea.getBoundingClientRect()
+  const line = Math.floor((clientY - rect.top - m.paddingTop + textarea.scrollTop) / m.lineHeight)
+  const lines = text.split('\n')
+  if (line < 0 || line >= lines.length) return null
+  const column = (clientX - rect.left - m.paddingLeft + textarea.scrollLeft) / m.charWidth
+  if (column < 0) return null
+  // Walk the line in visual columns so tabs count as their rendered width
+  let visual = 0
+  const content = lines[line]
+  for (let character = 0; character < content.length; character++) {
+    const width = content[character] === '\t' ? m.tabSize - (visual % m.tabSize) : 1
+    if (column < visual + width) return { line, character }
+    visual += width
+  }
+  return null
+}
+
+// Where the text at `offset` is drawn, relative to the textarea's top left corner
+function caretPoint(textarea: HTMLTextAreaElement, text: string, offset: number): { x: number; y: number } {
+  const m = measureText(textarea)
+  const { line, character } = offsetToPosition(text, offset)
+  const lineText = text.slice(offset - character, offset)
+  let visual = 0
+  for (const ch of lineText) visual += ch === '\t' ? m.tabSize - (visual % m.tabSize) : 1
+  return {
+    x: m.paddingLeft + visual * m.charWidth - textarea.scrollLeft,
+    y: m.paddingTop + line * m.lineHeight - textarea.scrollTop,
+  }
+}
+
+function worstSeverity(markers: EditorMarker[]): string {
+  return markers.reduce((worst, m) =>
+    severityRank(m.diagnostic.severity) < severityRank(worst) ? m.diagnostic.severity : worst,
+  markers[0].diagnostic.severity)
+}
+
+// Replace `start`-`end` and put the cursor `cursor` characters into the new text.
+// insertText keeps the browser's undo history; setRangeText is the fallback.
+function replaceRange(textarea: HTMLTextAreaElement, start: number, end: number, text: string, cursor = text.length) {
+  textarea.focus()
+  textarea.setSelectionRange(start, end)
+  if (!text || !document.execCommand('insertText', false, text)) {
+    textarea.setRangeText(text, start, end, 'end')
+    textarea.dispatchEvent(new Event('input', { bubbles: true }))
+  }
+  textarea.setSelectionRange(start + cursor, start + cursor)
+}
+
+// The buffer cut into spans for highlighted tokens, marked ranges and the matching
+// brackets. A point diagnostic marks the character after it, or a blank at the end
+// of its line.
+function renderLayer(text: string, tokens: Token[], markers: EditorMarker[], brackets: number[]): ReactNode[] {
+  const ranges = markers.map(marker => {
+    const widen = marker.end === marker.start && marker.start < text.length && text[marker.start] !== '\n'
+    return { marker, start: marker.start, end: widen ? marker.end + 1 : marker.end }
+  })
+  const bounds = new Set([0, text.length])
+  for (const range of ranges) {
+    bounds.add(Math.min(range.start, text.length))
+    bounds.add(Math.min(range.end, text.length))
+  }
+  for (const token of tokens) {
+    bounds.add(token.start)
+    bounds.add(token.end)
+  }
+  for (const bracket of brackets) {
+    bounds.add(bracket)
+    bounds.add(bracket + 1)
+  }
+  const sorted = [...bounds].sort((a, b) => a - b)
+
+  const nodes: ReactNode[] = []
+  let tokenIndex = 0
+  for (let i = 0; i < sorted.length; i++) {
+    const from = sorted[i]
+    const points = ranges.filter(r => r.start === from && r.end === from).map(r => r.marker)
+    if (points.length > 0) {
+      nodes.push(<span key={`p${from}`} className={`marker marker-${worstSeverity(points)}`}> </span>)
+    }
+    if (i + 1 === sorted.length) break
+    const to = sorted[i + 1]
+    while (tokenIndex < tokens.length && tokens[tokenIndex].end <= from) tokenIndex++
+    const token = tokens[tokenIndex]?.start <= from ? tokens[tokenIndex] : undefined
+    const covering = ranges.filter(r => r.start <= from && r.end >= to && r.end > r.start).map(r => r.marker)
+    const classes = [
+      token && `tok-${token.kind}`,
+      covering.length > 0 && `marker marker-${worstSeverity(covering)}`,
+      brackets.includes(from) && 'bracket-match',
+    ].filter(Boolean)
+    const segment = text.slice(from, to)
+    nodes.push(classes.length > 0 ? <span key={from} className={classes.join(' ')}>{segment}</span> : segment)
+  }
+  return nodes
+}
+
+// Code editor: a textarea over a layer that draws the highlighted code and diagnostics,
+// a gutter with line numbers and markers, Lean input (backslash abbreviations,
+// indentation, module names after `import`) and language-server hover and go-to-definition
+function LeanEditor({ value, onChange, onCursorChange, markers = [], getHover, getDefinition, moduleNames, placeholder, ref }: LeanEditorProps) {
+  const wrapperRef = useRef<HTMLDivElement>(null)
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const overlayRef = useRef<HTMLPreElement>(null)
+  const gutterRef = useRef<HTMLDivElement>(null)
+  const hoverTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined)
+  const hoverRequestRef = useRef(0)  // Answers to older requests are dropped
+  const [hover, setHover] = useState<HoverState | null>(null)
+  const [cursorOffset, setCursorOffset] = useState<number | null>(null)
+  const expandAtRef = useRef<number | null>(null)  // Offset just typed at, checked once rendered
+  const [completion, setCompletion] = useState<CompletionState | null>(null)
+  const [completionIndex, setCompletionIndex] = useState(0)
+
+  const hideHover = useCallback(() => {
+    clearTimeout(hoverTimerRef.current)
+    hoverRequestRef.current++
+    setHover(null)
+  }, [])
+
+  useEffect(() => () => clearTimeout(hoverTimerRef.current), [])
+
+  // The layers don't scroll themselves; they follow the textarea
+  const syncScroll = useCallback(() => {
+    const textarea = textareaRef.current
+    if (!textarea) return
+    if (overlayRef.current) {
+      overlayRef.current.style.transform = `translate(${-textarea.scrollLeft}px, ${-textarea.scrollTop}px)`
+    }
+    if (gutterRef.current) {
+      gutterRef.current.style.transform = `translateY(${-textarea.scrollTop}px)`
+    }
+  }, [])
+
+  useEffect(syncScroll, [value, syncScroll])
+
+  const reportCursor = useCallback(() => {
+    const textarea = textareaRef.current
+    if (!textarea) return
+    setCursorOffset(textarea.selectionStart === textarea.selectionEnd ? textarea.selectionStart : null)
+    onCursorChange?.(offsetToPosition(textarea.value, textarea.selectionStart))
+  }, [onCursorChange])
+
+  // Offer module names if a module name after `import` is being typed at the cursor
+  const openCompletion = useCallback((textarea: HTMLTextAreaElement) => {
+    const at = moduleNames && textarea.selectionStart === textarea.selectionEnd
+      ? importNameAt(textarea.value, textarea.selectionStart)
+      : null
+    if (!at || !wrapperRef.current) {
+      setCompletion(null)
+      return
+    }
+    const point = caretPoint(textarea, textarea.value, at.start)
+    const { lineHeight } = measureText(textarea)
+    const rect = textarea.getBoundingClientRect()
+    const wrapper = wrapperRef.current.getBoundingClientRect()
+    setCompletion({
+      start: at.start,
+      x: rect.left - wrapper.left + point.x,
+      y: rect.top - wrapper.top + point.y + lineHeight,
+    })
+    setCompletionIndex(0)
+  }, [moduleNames])
+
+  const handleChange = useCallback((e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    const textarea = e.currentTarget
+    const typed = (e.nativeEvent as InputEvent).inputType === 'insertText' &&
+      textarea.selectionStart === textarea.selectionEnd
+    expandAtRef.current = typed ? textarea.selectionStart : null
+    setCursorOffset(textarea.selectionStart === textarea.selectionEnd ? textarea.selectionStart : null)
+    // Typing opens the list; other edits only keep an open one up to date
+    if (typed || completion) openCompletion(textarea)
+    onChange(textarea.value)
+  }, [onChange, completion, openCompletion])
+
+  // Module names for the name between the start of the completion and the cursor
+  const completionItems = useMemo(() => {
+    if (!completion || !moduleNames || cursorOffset === null) return []
+    const at = importNameAt(value, cursorOffset)
+    if (!at || at.start !== completion.start) return []
+    const items = completeModuleName(at.typed, moduleNames)
+    return items.length === 1 && items[0] === at.typed ? [] : items
+  }, [completion, moduleNames, value, cursorOffset])
+
+  // Replace the name at the cursor, including the part after it, with `name`
+  const acceptCompletion = useCallback((name: string) => {
+    const textarea = textareaRef.current
+    if (!textarea || !completion) return
+    const rest = /^[\p{L}\p{N}_'!?.«»]*/u.exec(textarea.value.slice(textarea.selectionEnd))![0]
+    replaceRange(textarea, completion.start, textarea.selectionEnd + rest.length, name)
+    setCompletion(null)
+  }, [completion])
+
+  // Abbreviations expand once the typed character is in the rendered value, so the
+  // replacement is an ordinary edit on top of it
+  useLayoutEffect(() => {
+    const textarea = textareaRef.current
+    const offset = expandAtRef.current
+    expandAtRef.current = null
+    if (!textarea || offset === null || textarea.value !== value) return
+    const expansion = expandAbbreviation(value, offset)
+    if (expansion) {
+      replaceRange(textarea, expansion.start, expansion.end, expansion.text, expansion.cursor)
+    }
+  }, [value])
+
+  // Tab completes an abbreviation or indents, Shift+Tab dedents, Enter keeps the indentation.
+  // With module names listed, arrows pick one, Enter or Tab takes it and Escape closes
+  // the list; Ctrl+Space lists them.
+  const handleKeyDown = useCallback((e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    hideHover()
+    const textarea = e.currentTarget
+    const { selectionStart: start, selectionEnd: end } = textarea
+    const text = textarea.value
+    if (completionItems.length > 0 && !e.ctrlKey && !e.altKey && !e.metaKey) {
+      const count = completionItems.length
+      const index = Math.min(completionIndex, count - 1)
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault()
+        setCompletionIndex((index + (e.key === 'ArrowDown' ? 1 : count - 1)) % count)
+        return
+      }
+      if ((e.key === 'Enter' || e.key === 'Tab') && !e.shiftKey) {
+        e.preventDefault()
+        acceptCompletion(completionItems[index])
+        return
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault()
+        setCompletion(null)
+        return
+      }
+    }
+    if (e.key === ' ' && e.ctrlKey) {
+      e.preventDefault()
+      openCompletion(textarea)
+      return
+    }
+    if (e.key === 'Tab' && !e.ctrlKey && !e.altKey && !e.metaKey) {
+      e.preventDefault()
+      const expansion = start === end && !e.shiftKey ? expandAbbreviation(text, start, true) : null
+      if (expansion) {
+        replaceRange(textarea, expansion.start, expansion.end, expansion.text, expansion.cursor)
+        return
+      }
+      if (start === end && !e.shiftKey) {
+        replaceRange(textarea, start, end, INDENT)
+        return
+      }
+      // Indent or dedent every line the selection touches
+      const blockStart = text.lastIndexOf('\n', start - 1) + 1
+      const lines = text.slice(blockStart, end).split('\n')
+      const changed = lines.map(line => e.shiftKey ? line.replace(new RegExp(`^( {1,${INDENT.length}}|\t)`), '') : INDENT + line)
+      const replacement = changed.join('\n')
+      replaceRange(textarea, blockStart, end, replacement)
+      textarea.setSelectionRange(blockStart, blockStart + replacement.length)
+    } else if (e.key === 'Enter' && !e.ctrlKey && !e.metaKey && !e.altKey && !e.shiftKey) {
+      e.preventDefault()
+      const expansion = start === end ? expandAbbreviation(text, start, true) : null
+      const lineStart = text.lastIndexOf('\n', start - 1) + 1
+      let line = text.slice(lineStart, start)
+      if (expansion) line = line.slice(0, expansion.start - lineStart) + expansion.text
+      const insert = '\n' + nextLineIndent(line, INDENT)
+      if (expansion) {
+        replaceRange(textarea, expansion.start, end, expansion.text + insert)
+      } else {
+        replaceRange(textarea, start, end, insert)
+      }
+    }
+  }, [hideHover, completionItems, completionIndex, acceptCompletion, openCompletion])
+
+  const reveal = useCallback((start: number, end = start) => {
+    const textarea = textareaRef.current
+    if (!textarea) return
+    textarea.focus()
+    textarea.setSelectionRange(start, end)
+    const { lineHeight } = measureText(textarea)
+    const line = offsetToPosition(textarea.value, start).line
+    textarea.scrollTop = Math.max(0, line * lineHeight - textarea.clientHeight / 2)
+    syncScroll()
+    reportCursor()
+  }, [syncScroll, reportCursor])
+
+  useImperativeHandle(ref, () => ({ reveal }), [reveal])
+
+  const handleMouseMove = useCallback((e: React.MouseEvent<HTMLTextAreaElement>) => {
+    const textarea = e.currentTarget
+    hideHover()
+    if (!getHover && markers.length === 0) return
+    const position = positionAt(textarea, value, e.clientX, e.clientY)
+    if (!position || !wrapperRef.current) return
+    const offset = positionToOffset(value, position)
+    const messages = markers.filter(m => m.start === m.end ? m.start === offset : m.start <= offset && offset < m.end)
+    const wrapper = wrapperRef.current.getBoundingClientRect()
+    const x = e.clientX - wrapper.left
+    const y = e.clientY - wrapper.top
+    hoverTimerRef.current = setTimeout(async () => {
+      const request = ++hoverRequestRef.current
+      let text: string | null = null
+      try {
+        if (getHover) text = await getHover(position)
+      } catch (err) {
+        console.warn('Hover request failed:', err)
+      }
+      if (request === hoverRequestRef.current && (text || messages.length > 0)) {
+        setHover({ messages, text, x, y })
+      }
+    }, HOVER_DELAY_MS)
+  }, [getHover, markers, value, hideHover])
+
+  // Select the definition of the symbol under the mouse
+  const handleClick = useCallback(async (e: React.MouseEvent<HTMLTextAreaElement>) => {
+    reportCursor()
+    setCompletion(null)
+    if (!getDefinition || !(e.ctrlKey || e.metaKey)) return
+    const position = positionAt(e.currentTarget, value, e.clientX, e.clientY)
+    if (!position) return
+    hideHover()
+    try {
+      const range = await getDefinition(position)
+      if (range) reveal(positionToOffset(value, range.start), positionToOffset(value, range.end))
+    } catch (err) {
+      console.warn('Definition request failed:', err)
+    }
+  }, [getDefinition, value, hideHover, reportCursor, reveal])
+
+  const tokens = useMemo(() => tokenize(value), [value])
+
+  const brackets = useMemo(() => {
+    if (cursorOffset === null || cursorOffset > value.length) return []
+    return matchBracket(value, tokens, cursorOffset) ?? []
+  }, [value, tokens, cursorOffset])
+
+  const overlay = useMemo(() => renderLayer(value, tokens, markers, brackets), [value, tokens, markers, brackets])
+
+  // Markers in the gutter sit on the line a diagnostic starts on
+  const gutter = useMemo(() => {
+    const starts = lineStarts(value)
+    const byLine = new Map<number, EditorMarker[]>()
+    for (const marker of markers) {
+      const line = offsetToPosition(value, marker.start).line
+      byLine.set(line, [...(byLine.get(line) ?? []), marker])
+    }
+    return starts.map((_, line) => {
+      const onLine = byLine.get(line)
+      return (
+        <div
+          key={line}
+          className={onLine ? `gutter-line gutter-${worstSeverity(onLine)}` : 'gutter-line'}
+          title={onLine?.map(m => m.diagnostic.data).join('\n\n')}
+        >
+          {line + 1}
+        </div>
+      )
+    })
+  }, [value, markers])
+
+  const activeCompletion = Math.min(completionIndex, completionItems.length - 1)
+
+  return (
+    <div className="lean-editor" ref={wrapperRef}>
+      <div className="editor-gutter" aria-hidden>
+        <div ref={gutterRef}>{gutter}</div>
+      </div>
+      <div className="editor-code">
+        <pre className="code-editor editor-overlay" ref={overlayRef} aria-hidden>
+          {overlay}{'\n'}
+        </pre>
+        <textarea
+          ref={textareaRef}
+          className="code-editor"
+          value={value}
+          onChange={handleChange}
+          onSelect={reportCursor}
+          onMouseMove={handleMouseMove}
+          onMouseLeave={hideHover}
+          onClick={handleClick}
+          onKeyDown={handleKeyDown}
+          onBlur={() => setCompletion(null)}
+          onScroll={() => { hideHover(); setCompletion(null); syncScroll() }}
+          placeholder={placeholder}
+          spellCheck={false}
+          wrap="off"
+        />
+      </div>
+      {completionItems.length > 0 && completion && (
+        <div className="editor-completion" style={{ left: completion.x, top: completion.y }} role="listbox">
+          {completionItems.map((name, i) => (
+            <div
+              key={name}
+              role="option"
+              aria-selected={i === activeCompletion}
+              className={i === activeCompletion ? 'completion-item completion-item-active' : 'completion-item'}
+              ref={i === activeCompletion ? el => el?.scrollIntoView({ block: 'nearest' }) : undefined}
+              // Keep the focus in the textarea
+              onMouseDown={e => {
+                e.preventDefault()
+                acceptCompletion(name)
+              }}
+            >
+              {name}
+            </div>
+          ))}
+        </div>
+      )}
+      {hover && (
+        <div className="editor-hover" style={{ left: hover.x, top: hover.y + 16 }}>
+          {hover.messages.map((m, i) => (
+            <div key={i} className={`diagnostic diagnostic-${m.diagnostic.severity}`}>
+              <pre>{m.diagnostic.data}</pre>
+            </div>
+          ))}
+          {/* Hover markdown is mostly a fenced signature plus a docstring */}
+          {hover.text && <pre>{hover.text.replace(/```\w*\n?/g, '').trim()}</pre>}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default LeanEditor
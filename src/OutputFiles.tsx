@@ -0,0 +1,32 @@
+import { downloadBytes, formatBytes } from './utils'
+import { workspaceFileName } from './workspace'
+
+interface OutputFilesProps {
+  files: Map<string, Uint8Array>     // Path in the runner's filesystem -> contents
+}
+
+// Files read back from the runner after a run, each offered as a download
+function OutputFiles({ files }: OutputFilesProps) {
+  if (files.size === 0) {
+    return <div className="output-placeholder">No files matched the collect patterns</div>
+  }
+
+  return (
+    <div className="output-files">
+      {[...files].map(([path, data]) => (
+        <div key={path} className="output-file">
+          <span className="output-file-path" title={path}>{workspaceFileName(path)}</span>
+          <span className="output-file-size">{formatBytes(data.byteLength)}</span>
+          <button
+            onClick={() => downloadBytes(path.substring(path.lastIndexOf('/') + 1), data)}
+            className="btn btn-small"
+          >
+            Download
+          </button>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export default OutputFiles
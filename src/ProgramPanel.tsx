@@ -0,0 +1,88 @@
+import { useState } from 'react'
+import type { RunResult } from './runner/runner'
+
+// What a `lean --run` program printed, kept apart from Lean's messages
+export interface ProgramOutput {
+  stdout: string
+  stderr: string
+  result: RunResult | null   // null while the program runs
+}
+
+interface ProgramPanelProps {
+  output: ProgramOutput | null
+  running: boolean
+  disabled?: boolean
+  fileName: string           // File whose `main` runs
+  onRun: (args: string[], stdin: string) => void
+}
+
+// Split a command line into arguments; single or double quotes keep spaces
+function splitArguments(text: string): string[] {
+  const args: string[] = []
+  for (const match of text.matchAll(/"((?:[^"\\]|\\.)*)"|'([^']*)'|(\S+)/g)) {
+    args.push(match[1] !== undefined ? match[1].replace(/\\(.)/g, '$1') : match[2] ?? match[3])
+  }
+  return args
+}
+
+// Run `main` of the file in the editor with arguments and stdin
+function ProgramPanel({ output, running, disabled, fileName, onRun }: ProgramPanelProps) {
+  const [args, setArgs] = useState<string>('')
+  const [stdin, setStdin] = useState<string>('')
+  const result = output?.result
+
+  return (
+    <div className="panel program-panel">
+      <div className="panel-header">
+        <span>Program</span>
+        <div className="repl-actions">
+          {result && (
+            <span className={`library-info run-outcome run-outcome-${result.outcome}`} title={result.message}>
+              {result.outcome === 'exit' ? `exit ${result.exitCode}` : result.outcome}
+              {' · '}{(result.durationMs / 1000).toFixed(1)} s
+            </span>
+          )}
+          <input
+            type="text"
+            value={args}
+            onChange={(e) => setArgs(e.target.value)}
+            className="input-small program-args"
+            placeholder="arguments"
+            title="Arguments for main; quote arguments that contain spaces"
+          />
+          <button
+            onClick={() => onRun(splitArguments(args), stdin)}
+            disabled={disabled || running}
+            className="btn btn-small"
+            title={`lean --run ${fileName} with these arguments, reading the stdin text`}
+          >
+            {running ? 'Running...' : 'Run main'}
+          </button>
+        </div>
+      </div>
+      <div className="program-body">
+        <textarea
+          value={stdin}
+          onChange={(e) => setStdin(e.target.value)}
+          className="repl-textarea program-stdin"
+          placeholder="stdin (the program reads EOF after this text)"
+          spellCheck={false}
+        />
+        <div className="output program-output">
+          {output?.stdout && <pre className="program-stdout">{output.stdout}</pre>}
+          {output?.stderr && <pre className="program-stderr">{output.stderr}</pre>}
+          {!output?.stdout && !output?.stderr && (
+            <span className="output-placeholder">
+              {output
+                ? result ? 'The program printed nothing' : running ? 'Running...' : 'Interrupted by another run'
+                : 'Define main : IO Unit (or IO UInt32, taking List String for arguments) and run it here. ' +
+                  "Lean's messages go to the output panel."}
+            </span>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default ProgramPanel
@@ -0,0 +1,235 @@
+import { useState, useEffect, useRef, useCallback } from 'react'
+import { splitCommands } from './runner/repl'
+import type { ReplCallbacks, ReplSession } from './runner/repl'
+import type { LeanDiagnostic } from './diagnostics'
+import DiagnosticList from './DiagnosticList'
+
+type SessionStatus = 'stopped' | 'starting' | 'ready' | 'busy'
+
+// One command and what the REPL answered
+interface ReplEntry {
+  id: number
+  cmd: string
+  envIn: number | null      // null = elaborated as a new file
+  envOut?: number
+  messages?: LeanDiagnostic[]
+  error?: string
+  output?: string           // Plain output or a note from the panel
+}
+
+// Where the next command starts from
+type EnvChoice = 'latest' | 'new' | number
+
+// Position while stepping through the editor buffer
+interface StepState {
+  commands: string[]        // Header first, then one chunk per command
+  next: number
+  env: number | null
+}
+
+interface ReplPanelProps {
+  code: string              // Editor buffer, for stepping through it
+  disabled?: boolean
+  // Acquire a runner with the buffer's library and start the REPL in it
+  startSession: (callbacks: ReplCallbacks) => Promise<ReplSession>
+}
+
+// Persistent REPL: commands run against environment snapshots of one Lean process
+function ReplPanel({ code, disabled, startSession }: ReplPanelProps) {
+  const [status, setStatus] = useState<SessionStatus>('stopped')
+  const [entries, setEntries] = useState<ReplEntry[]>([])
+  const [envs, setEnvs] = useState<number[]>([])
+  const [envChoice, setEnvChoice] = useState<EnvChoice>('latest')
+  const [input, setInput] = useState<string>('#eval 1 + 1')
+  const [step, setStep] = useState<StepState | null>(null)
+  const sessionRef = useRef<ReplSession | null>(null)
+  const nextIdRef = useRef(0)
+  const transcriptRef = useRef<HTMLDivElement>(null)
+
+  const addEntry = useCallback((entry: Omit<ReplEntry, 'id'>): number => {
+    const id = nextIdRef.current++
+    setEntries(prev => [...prev, { ...entry, id }])
+    return id
+  }, [])
+
+  const updateEntry = useCallback((id: number, update: Partial<ReplEntry>) => {
+    setEntries(prev => prev.map(e => e.id === id ? { ...e, ...update } : e))
+  }, [])
+
+  const start = useCallback(async () => {
+    setStatus('starting')
+    setEntries([])
+    setEnvs([])
+    setStep(null)
+    try {
+      sessionRef.current = await startSession({
+        onOutput: (text, isError) => addEntry({ cmd: '', envIn: null, output: text, error: isError ? text : undefined }),
+        onExit: (result) => {
+          sessionRef.current = null
+          setStatus('stopped')
+          addEntry({ cmd: '', envIn: null, output: `Session ended (${result.outcome}${result.message ? `: ${result.message}` : ''})` })
+        },
+      })
+      setStatus('ready')
+    } catch (err) {
+      console.error('Failed to start REPL session:', err)
+      addEntry({ cmd: '', envIn: null, error: err instanceof Error ? err.message : String(err) })
+      setStatus('stopped')
+    }
+  }, [startSession, addEntry])
+
+  const stop = useCallback(() => {
+    sessionRef.current?.stop()
+  }, [])
+
+  // Stop the session when the panel goes away
+  useEffect(() => () => sessionRef.current?.stop(), [])
+
+  // Run one command; resolves with the new snapshot, or null if it failed
+  const send = useCallback(async (cmd: string, env: number | null): Promise<number | null> => {
+    const session = sessionRef.current
+    if (!session) return null
+    const id = addEntry({ cmd, envIn: env })
+    setStatus('busy')
+    try {
+      const response = await session.send(cmd, env ?? undefined)
+      updateEntry(id, { envOut: response.env, messages: response.messages })
+      setEnvs(prev => [...prev, response.env])
+      return response.env
+    } catch (err) {
+      updateEntry(id, { error: err instanceof Error ? err.message : String(err) })
+      return null
+    } finally {
+      if (sessionRef.current) setStatus('ready')
+    }
+  }, [addEntry, updateEntry])
+
+  const resolveEnv = useCallback((): number | null => {
+    if (envChoice === 'new') return null
+    if (envChoice === 'latest') return envs.length > 0 ? envs[envs.length - 1] : null
+    return envChoice
+  }, [envChoice, envs])
+
+  const submit = useCallback(async () => {
+    if (!input.trim()) return
+    const env = await send(input, resolveEnv())
+    if (env !== null) setInput('')
+  }, [input, send, resolveEnv])
+
+  // Step through the editor buffer: the header first (loads the imports once), then
+  // each command on top of the previous step's snapshot
+  const stepForward = useCallback(async () => {
+    let current = step
+    if (!current || current.next >= current.commands.length) {
+      const { header, commands } = splitCommands(code)
+      current = { commands: [header, ...commands], next: 0, env: null }
+    }
+    const cmd = current.commands[current.next]
+    const env = await send(cmd, current.next === 0 ? null : current.env)
+    setStep(env === null ? null : { ...current, next: current.next + 1, env })
+  }, [step, code, send])
+
+  useEffect(() => {
+    if (transcriptRef.current) {
+      transcriptRef.current.scrollTop = transcriptRef.current.scrollHeight
+    }
+  }, [entries])
+
+  const running = status === 'ready' || status === 'busy'
+
+  return (
+    <div className="panel repl-panel">
+      <div className="panel-header">
+        <span>REPL</span>
+        <div className="repl-actions">
+          <span className="library-info">
+            {status}{envs.length > 0 && ` · ${envs.length} snapshots`}
+          </span>
+          {!running ? (
+            <button
+              onClick={start}
+              disabled={disabled || status === 'starting'}
+              className="btn btn-small"
+              title="Start a Lean process that keeps its environment between commands"
+            >
+              {status === 'starting' ? 'Starting...' : 'Start session'}
+            </button>
+          ) : (
+            <>
+              <button
+                onClick={stepForward}
+                disabled={status === 'busy'}
+                className="btn btn-small"
+                title="Run the next command of the editor buffer"
+              >
+                Step {step ? `${step.next}/${step.commands.length}` : 'buffer'}
+              </button>
+              <button onClick={stop} className="btn btn-small" title="Terminate the session">
+                Stop
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+      <div className="output repl-transcript" ref={transcriptRef}>
+        {entries.map(entry => (
+          <div key={entry.id} className="repl-entry">
+            {entry.cmd && (
+              <div className="repl-command">
+                <span className="repl-env">
+                  {entry.envIn === null ? 'new' : `env ${entry.envIn}`}
+                  {entry.envOut !== undefined && ` → ${entry.envOut}`}
+                </span>
+                <pre>{entry.cmd}</pre>
+              </div>
+            )}
+            {entry.messages && <DiagnosticList diagnostics={entry.messages} />}
+            {entry.error
+              ? <div className="output-error">{entry.error}</div>
+              : entry.output && <div className="output-placeholder">{entry.output}</div>}
+          </div>
+        ))}
+        {entries.length === 0 && (
+          <span className="output-placeholder">
+            Start a session, then send commands or step through the buffer. Imports are
+            elaborated once; later commands reuse the saved environments.
+          </span>
+        )}
+      </div>
+      <div className="repl-input">
+        <select
+          value={String(envChoice)}
+          onChange={(e) => {
+            const value = e.target.value
+            setEnvChoice(value === 'latest' || value === 'new' ? value : Number(value))
+          }}
+          className="select-small"
+          title="Environment the command runs in"
+        >
+          <option value="latest">latest env</option>
+          <option value="new">new file</option>
+          {envs.map(env => <option key={env} value={env}>env {env}</option>)}
+        </select>
+        <textarea
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+              e.preventDefault()
+              submit()
+            }
+          }}
+          className="repl-textarea"
+          placeholder="Lean command (Ctrl+Enter to send)"
+          spellCheck={false}
+          rows={2}
+        />
+        <button onClick={submit} disabled={status !== 'ready'} className="btn btn-small">
+          Send
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default ReplPanel
@@ -0,0 +1,58 @@
+// Corpus for the diagnostics export formats; run with `npm test`
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { exportDiagnostics } from './diagnostic-export.ts';
+
+const diagnostics = [
+  {
+    severity: 'error',
+    data: 'type mismatch\n  h\nhas type <P & Q>',
+    pos: { line: 3, column: 0 },
+    endPos: { line: 3, column: 5 },
+    fileName: 'Main.lean',
+  },
+  { severity: 'warning', data: "declaration uses 'sorry'", pos: { line: 7, column: 8 }, fileName: 'Main.lean' },
+  { severity: 'information', data: '2', pos: { line: 1, column: 0 }, endPos: null, fileName: 'Foo/Bar.lean' },
+];
+
+test('json is the lean --json objects as they are', () => {
+  assert.deepEqual(JSON.parse(exportDiagnostics(diagnostics, 'json')), diagnostics);
+});
+
+test('sarif has one result per message with 1-based columns', () => {
+  const sarif = JSON.parse(exportDiagnostics(diagnostics, 'sarif'));
+  assert.equal(sarif.version, '2.1.0');
+  const [run] = sarif.runs;
+  assert.equal(run.tool.driver.name, 'Lean');
+  assert.equal(run.columnKind, 'unicodeCodePoints');
+  assert.deepEqual(run.results.map(r => r.level), ['error', 'warning', 'note']);
+  const [error, warning] = run.results;
+  assert.equal(error.message.text, diagnostics[0].data);
+  assert.deepEqual(error.locations[0].physicalLocation, {
+    artifactLocation: { uri: 'Main.lean' },
+    region: { startLine: 3, startColumn: 1, endLine: 3, endColumn: 6 },
+  });
+  // Point diagnostics have no end
+  assert.deepEqual(warning.locations[0].physicalLocation.region, { startLine: 7, startColumn: 9 });
+});
+
+test('junit has one test case per file, failed when it has errors', () => {
+  const xml = exportDiagnostics(diagnostics, 'junit');
+  assert.match(xml, /^<\?xml version="1.0" encoding="UTF-8"\?>\n/);
+  assert.match(xml, /<testsuites name="lean" tests="2" failures="1">/);
+  assert.match(xml, /<testcase classname="lean" name="Main.lean">\n {6}<failure type="error" message="type mismatch">/);
+  assert.match(xml, /<testcase classname="lean" name="Foo\/Bar.lean">\n {6}<system-out>Foo\/Bar.lean:1:0: information: 2<\/system-out>\n {4}<\/testcase>/);
+  assert.match(xml, /Main.lean:7:8: warning: declaration uses &apos;sorry&apos;/);
+});
+
+test('junit escapes XML in names and messages', () => {
+  const xml = exportDiagnostics(diagnostics, 'junit');
+  assert.match(xml, /has type &lt;P &amp; Q&gt;/);
+  assert.doesNotMatch(xml, /<P & Q>/);
+});
+
+test('no diagnostics is an empty suite', () => {
+  assert.match(exportDiagnostics([], 'junit'), /<testsuites name="lean" tests="0" failures="0">/);
+  assert.deepEqual(JSON.parse(exportDiagnostics([], 'sarif')).runs[0].results, []);
+});
@@ -0,0 +1,90 @@
+/**
+ * Diagnostics as files for bug reports and other tools: the `lean --json` objects,
+ * SARIF 2.1.0 and JUnit XML
+ */
+
+import type { LeanDiagnostic } from './diagnostics'
+
+export type DiagnosticExportFormat = 'json' | 'sarif' | 'junit'
+
+export const EXPORT_FILES: Record<DiagnosticExportFormat, { fileName: string; type: string }> = {
+  json: { fileName: 'diagnostics.json', type: 'application/json' },
+  sarif: { fileName: 'diagnostics.sarif', type: 'application/sarif+json' },
+  junit: { fileName: 'diagnostics-junit.xml', type: 'application/xml' },
+}
+
+export function exportDiagnostics(diagnostics: LeanDiagnostic[], format: DiagnosticExportFormat): string {
+  switch (format) {
+    case 'json': return JSON.stringify(diagnostics, null, 2)
+    case 'sarif': return JSON.stringify(toSarif(diagnostics), null, 2)
+    case 'junit': return toJUnit(diagnostics)
+  }
+}
+
+const SARIF_LEVELS: Record<string, string> = { error: 'error', warning: 'warning' }
+
+// One SARIF run; Lean's columns count code points and start at 0, SARIF's start at 1
+function toSarif(diagnostics: LeanDiagnostic[]) {
+  return {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [{
+      tool: { driver: { name: 'Lean', informationUri: 'https://lean-lang.org' } },
+      columnKind: 'unicodeCodePoints',
+      results: diagnostics.map(d => ({
+        level: SARIF_LEVELS[d.severity] ?? 'note',
+        message: { text: d.data },
+        locations: [{
+          physicalLocation: {
+            artifactLocation: { uri: d.fileName },
+            region: {
+              startLine: d.pos.line,
+              startColumn: d.pos.column + 1,
+              ...(d.endPos && { endLine: d.endPos.line, endColumn: d.endPos.column + 1 }),
+            },
+          },
+        }],
+      })),
+    }],
+  }
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&"']/g, ch => `&${{ '<': 'lt', '>': 'gt', '&': 'amp', '"': 'quot', "'": 'apos' }[ch]};`)
+}
+
+const location = (d: LeanDiagnostic) => `${d.fileName}:${d.pos.line}:${d.pos.column}`
+
+// One test case per file, failed when it has errors; other messages go to system-out
+function toJUnit(diagnostics: LeanDiagnostic[]): string {
+  const byFile = new Map<string, LeanDiagnostic[]>()
+  for (const d of diagnostics) byFile.set(d.fileName, [...(byFile.get(d.fileName) ?? []), d])
+
+  const cases = [...byFile].map(([fileName, fileDiagnostics]) => {
+    const errors = fileDiagnostics.filter(d => d.severity === 'error')
+    const others = fileDiagnostics.filter(d => d.severity !== 'error')
+    const lines = [`    <testcase classname="lean" name="${escapeXml(fileName)}">`]
+    if (errors.length > 0) {
+      const first = errors[0].data.split('\n')[0]
+      lines.push(`      <failure type="error" message="${escapeXml(first)}">` +
+        escapeXml(errors.map(d => `${location(d)}: ${d.data}`).join('\n\n')) + '</failure>')
+    }
+    if (others.length > 0) {
+      lines.push('      <system-out>' +
+        escapeXml(others.map(d => `${location(d)}: ${d.severity}: ${d.data}`).join('\n\n')) + '</system-out>')
+    }
+    lines.push('    </testcase>')
+    return { failed: errors.length > 0, xml: lines.join('\n') }
+  })
+
+  const failures = cases.filter(c => c.failed).length
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="lean" tests="${cases.length}" failures="${failures}">`,
+    `  <testsuite name="lean" tests="${cases.length}" failures="${failures}" errors="0">`,
+    ...cases.map(c => c.xml),
+    '  </testsuite>',
+    '</testsuites>',
+    '',
+  ].join('\n')
+}
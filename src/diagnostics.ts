@@ -0,0 +1,68 @@
+/**
+ * Lean diagnostics as printed by `lean --json`
+ */
+
+// Parsed Lean diagnostic message (`lean --json` output, also the REPL's messages)
+export interface LeanDiagnostic {
+  severity: 'information' | 'warning' | 'error' | string
+  data: string
+  pos: { line: number; column: number }
+  endPos?: { line: number; column: number } | null  // Absent for point diagnostics
+  fileName: string
+  caption?: string
+  kind?: string
+}
+
+// One line of `lean --json` output as a diagnostic, or null for any other line
+export function parseDiagnosticLine(line: string): LeanDiagnostic | null {
+  if (!line.trimStart().startsWith('{')) return null
+  try {
+    const parsed = JSON.parse(line)
+    return parsed?.pos && parsed.data !== undefined ? parsed as LeanDiagnostic : null
+  } catch {
+    return null
+  }
+}
+
+// A line that looked like a `--json` message but couldn't be read as one
+export interface OutputProblem {
+  line: string
+  reason: 'truncated' | 'invalid-json' | 'not-a-diagnostic'
+}
+
+// Parse JSON output lines from Lean. Lines that start like a JSON object but aren't a
+// diagnostic are reported as problems rather than mixed into the plain output.
+export function parseLeanOutput(output: string): {
+  diagnostics: LeanDiagnostic[]
+  rawLines: string[]
+  problems: OutputProblem[]
+} {
+  const diagnostics: LeanDiagnostic[] = []
+  const rawLines: string[] = []
+  const problems: OutputProblem[] = []
+  
+  for (const line of output.split('\n')) {
+    if (!line.trim()) continue
+    const diagnostic = parseDiagnosticLine(line)
+    if (diagnostic) {
+      diagnostics.push(diagnostic)
+    } else if (line.trimStart().startsWith('{')) {
+      problems.push({ line, reason: classifyJsonLine(line) })
+    } else {
+      rawLines.push(line)
+    }
+  }
+  
+  return { diagnostics, rawLines, problems }
+}
+
+// Why a line starting with `{` isn't a diagnostic; JSON that just stops was cut off
+// (a killed run, or output past a buffer limit)
+function classifyJsonLine(line: string): OutputProblem['reason'] {
+  try {
+    JSON.parse(line)
+    return 'not-a-diagnostic'
+  } catch {
+    return line.trimEnd().endsWith('}') ? 'invalid-json' : 'truncated'
+  }
+}
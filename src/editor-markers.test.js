@@ -0,0 +1,74 @@
+// Corpus for placing diagnostics in the editor and moving them through edits; run with
+// `npm test`
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { diagnosticsToMarkers, mapMarkers, sameDiagnostic, severityRank } from './editor-markers.ts';
+
+const diagnostic = (line, column, endLine, endColumn, severity = 'error', data = 'msg') => ({
+  severity,
+  data,
+  pos: { line, column },
+  endPos: endLine === undefined ? null : { line: endLine, column: endColumn },
+  fileName: 'Main.lean',
+});
+
+// Markers as [start, end] pairs for `text`, moved to `after`
+function move(text, after, ...diagnostics) {
+  return mapMarkers(diagnosticsToMarkers(diagnostics, text), text, after).map(m => [m.start, m.end]);
+}
+
+test('diagnostics become offsets, columns counted in code points', () => {
+  const text = 'def 𝔽 := 1\ndef x := y';
+  const [a, b] = diagnosticsToMarkers([diagnostic(1, 4, 1, 5), diagnostic(2, 9)], text);
+  assert.equal(text.slice(a.start, a.end), '𝔽');
+  assert.deepEqual([b.start, b.end], [text.indexOf('y'), text.indexOf('y')]);
+});
+
+test('positions past the buffer clamp to it', () => {
+  const [marker] = diagnosticsToMarkers([diagnostic(5, 40)], 'ab\ncd');
+  assert.deepEqual([marker.start, marker.end], [5, 5]);
+});
+
+test('an unchanged buffer keeps the markers as they are', () => {
+  const markers = diagnosticsToMarkers([diagnostic(1, 0, 1, 3)], 'abc');
+  assert.equal(mapMarkers(markers, 'abc', 'abc'), markers);
+});
+
+test('edits before a marker shift it, edits after it leave it alone', () => {
+  const text = 'def x := y';
+  assert.deepEqual(move(text, '-- c\ndef x := y', diagnostic(1, 9, 1, 10)), [[14, 15]]);
+  assert.deepEqual(move(text, 'def x := y + 1', diagnostic(1, 9, 1, 10)), [[9, 10]]);
+});
+
+test('typing right before a marker pushes it, right after it does not grow it', () => {
+  const text = 'ab';
+  assert.deepEqual(move(text, 'aXb', diagnostic(1, 1, 1, 2)), [[2, 3]]);
+  assert.deepEqual(move(text, 'abX', diagnostic(1, 1, 1, 2)), [[1, 2]]);
+});
+
+test('typing inside a marker grows it', () => {
+  assert.deepEqual(move('abcd', 'abXcd', diagnostic(1, 1, 1, 3)), [[1, 4]]);
+});
+
+test('deleting text around a marker shrinks it to where the text was', () => {
+  assert.deepEqual(move('abcdef', 'af', diagnostic(1, 2, 1, 4)), [[1, 1]]);
+  assert.deepEqual(move('abcdef', 'abf', diagnostic(1, 1, 1, 4)), [[1, 2]]);
+});
+
+test('point markers stay points', () => {
+  assert.deepEqual(move('abcd', 'aXXbcd', diagnostic(1, 2)), [[4, 4]]);
+});
+
+test('severities rank errors first and unknown ones last', () => {
+  assert.deepEqual(['information', 'mystery', 'error', 'warning'].sort((a, b) => severityRank(a) - severityRank(b)),
+    ['error', 'warning', 'information', 'mystery']);
+});
+
+test('sameDiagnostic compares message, severity and start', () => {
+  const a = diagnostic(1, 2, 1, 4);
+  assert.equal(sameDiagnostic(a, { ...diagnostic(1, 2, 3, 0), fileName: 'Other.lean' }), true);
+  assert.equal(sameDiagnostic(a, diagnostic(1, 3, 1, 4)), false);
+  assert.equal(sameDiagnostic(a, diagnostic(1, 2, 1, 4, 'warning')), false);
+  assert.equal(sameDiagnostic(a, diagnostic(1, 2, 1, 4, 'error', 'other')), false);
+});
@@ -0,0 +1,71 @@
+/**
+ * Diagnostics attached to ranges of the editor buffer
+ *
+ * A diagnostic refers to the text Lean saw. Markers hold it as offsets into the current
+ * buffer and are moved along with every edit, so they keep pointing at the same code
+ * until fresh diagnostics replace them.
+ */
+
+import type { LeanDiagnostic } from './diagnostics'
+import { columnToCharacter, lineStarts } from './text-position'
+
+export interface EditorMarker {
+  diagnostic: LeanDiagnostic
+  start: number              // UTF-16 offsets into the current buffer
+  end: number                // Equal to start for point diagnostics
+}
+
+// Severities from most to least important
+const SEVERITY_ORDER = ['error', 'warning', 'information']
+
+export function severityRank(severity: string): number {
+  const rank = SEVERITY_ORDER.indexOf(severity)
+  return rank < 0 ? SEVERITY_ORDER.length : rank
+}
+
+// Markers for diagnostics (1-based lines, code point columns) reported for `text`
+export function diagnosticsToMarkers(diagnostics: LeanDiagnostic[], text: string): EditorMarker[] {
+  const starts = lineStarts(text)
+  const lines = text.split('\n')
+  const toOffset = ({ line, column }: { line: number; column: number }) => {
+    const index = Math.min(Math.max(line - 1, 0), lines.length - 1)
+    return starts[index] + columnToCharacter(lines[index], column)
+  }
+  return diagnostics.map(diagnostic => {
+    const start = toOffset(diagnostic.pos)
+    const end = diagnostic.endPos ? Math.max(start, toOffset(diagnostic.endPos)) : start
+    return { diagnostic, start, end }
+  })
+}
+
+// Move markers through the edit that turned `before` into `after`. The edit is taken
+// to be one replaced span (what a keystroke, paste or cut produces); markers inside
+// deleted text shrink to where it was.
+export function mapMarkers(markers: EditorMarker[], before: string, after: string): EditorMarker[] {
+  if (before === after || markers.length === 0) return markers
+  const maxPrefix = Math.min(before.length, after.length)
+  let prefix = 0
+  while (prefix < maxPrefix && before.charCodeAt(prefix) === after.charCodeAt(prefix)) prefix++
+  let suffix = 0
+  while (suffix < maxPrefix - prefix &&
+    before.charCodeAt(before.length - 1 - suffix) === after.charCodeAt(after.length - 1 - suffix)) suffix++
+
+  const oldEnd = before.length - suffix
+  const newEnd = after.length - suffix
+  const delta = after.length - before.length
+  // Text typed right before a marker pushes it along; text typed right after it doesn't grow it
+  const mapStart = (x: number) => x < prefix ? x : x >= oldEnd ? x + delta : newEnd
+  const mapEnd = (x: number) => x <= prefix ? x : x >= oldEnd ? x + delta : prefix
+
+  return markers.map(marker => {
+    const start = mapStart(marker.start)
+    const end = marker.end === marker.start ? start : Math.max(start, mapEnd(marker.end))
+    return { ...marker, start, end }
+  })
+}
+
+// Same message at the same place; lists parse their own copies of a run's output
+export function sameDiagnostic(a: LeanDiagnostic, b: LeanDiagnostic): boolean {
+  return a.data === b.data && a.severity === b.severity &&
+    a.pos.line === b.pos.line && a.pos.column === b.pos.column
+}
@@ -0,0 +1,92 @@
+/**
+ * Web Worker that downloads the library bundle and unpacks it off the main thread
+ * Streams the response through fflate (gzip or zip) and, for tarballs, through
+ * TarExtractor, then transfers the file buffers back without copying.
+ */
+
+import { Gunzip, Unzip, UnzipInflate } from 'fflate';
+import { TarExtractor } from './utils';
+import type { BundleWorkerRequest, BundleWorkerResponse } from './lean-bundle';
+
+function post(message: BundleWorkerResponse, transfer: Transferable[] = []) {
+  self.postMessage(message, { transfer });
+}
+
+async function openBundle(url: string, cacheName?: string): Promise<Response> {
+  if (!cacheName || typeof caches === 'undefined') return fetch(url);
+  const cache = await caches.open(cacheName);
+  const hit = await cache.match(url);
+  if (hit) return hit;
+  const response = await fetch(url);
+  if (response.ok) {
+    await cache.put(url, response.clone()).catch(e => console.warn(`Failed to cache ${url}:`, e));
+  }
+  return response;
+}
+
+// Returns a sink for compressed chunks plus a way to collect the unpacked files
+function createUnpacker(url: string): {
+  push: (chunk: Uint8Array, final: boolean) => void;
+  files: () => Map<string, Uint8Array>;
+} {
+  if (url.endsWith('.zip')) {
+    const files = new Map<string, Uint8Array>();
+    const unzip = new Unzip(file => {
+      if (file.name.endsWith('/')) return;  // Directory entry
+      const chunks: Uint8Array[] = [];
+      file.ondata = (err, data, final) => {
+        if (err) throw err;
+        chunks.push(data);
+        if (final) {
+          const total = chunks.reduce((n, c) => n + c.length, 0);
+          const out = new Uint8Array(total);
+          let offset = 0;
+          for (const c of chunks) {
+            out.set(c, offset);
+            offset += c.length;
+          }
+          files.set(file.name.replace(/^\.\//, ''), out);
+        }
+      };
+      file.start();
+    });
+    unzip.register(UnzipInflate);
+    return { push: (chunk, final) => unzip.push(chunk, final), files: () => files };
+  }
+
+  // .tar.gz: gunzip feeds the tar parser as data is inflated
+  const tar = new TarExtractor();
+  const gunzip = new Gunzip(chunk => tar.push(chunk));
+  return { push: (chunk, final) => gunzip.push(chunk, final), files: () => tar.files };
+}
+
+self.onmessage = async (event: MessageEvent<BundleWorkerRequest>) => {
+  const { url, cacheName } = event.data;
+  try {
+    const response = await openBundle(url, cacheName);
+    if (!response.ok || !response.body) {
+      throw new Error(`Failed to fetch ${url}: ${response.status}`);
+    }
+
+    const total = parseInt(response.headers.get('content-length') || '0', 10);
+    const unpacker = createUnpacker(url);
+    const reader = response.body.getReader();
+    let received = 0;
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      received += value.length;
+      unpacker.push(value, false);
+      post({ type: 'progress', received, total });
+    }
+    unpacker.push(new Uint8Array(0), true);
+
+    const files = unpacker.files();
+    const names = [...files.keys()];
+    const buffers = names.map(name => files.get(name)!.buffer as ArrayBuffer);
+    post({ type: 'done', names, buffers, compressedBytes: received }, buffers);
+  } catch (e) {
+    post({ type: 'error', message: e instanceof Error ? e.message : String(e) });
+  }
+};
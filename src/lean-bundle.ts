@@ -0,0 +1,61 @@
+/**
+ * Single-archive library delivery
+ * Fetches lean-lib.tar.gz (or .zip) in one request and unpacks it in a Web Worker,
+ * producing the same Map<string, Uint8Array> as fetchOleanFiles.
+ * Generate the bundle with `npm run gen-lib-bundle`.
+ */
+
+import { getCacheName } from './lean-cache';
+import { bundleUrl } from './toolchains';
+import type { Toolchain } from './toolchains';
+
+export interface BundleWorkerRequest {
+  url: string;
+  cacheName?: string;
+}
+
+export type BundleWorkerResponse =
+  | { type: 'progress'; received: number; total: number }
+  | { type: 'done'; names: string[]; buffers: ArrayBuffer[]; compressedBytes: number }
+  | { type: 'error'; message: string };
+
+export interface LibraryBundle {
+  files: Map<string, Uint8Array>;
+  compressedBytes: number;
+}
+
+// Download and unpack the whole library bundle off the main thread
+export function fetchLibraryBundle(
+  toolchain: Toolchain,
+  onProgress?: (received: number, total: number) => void
+): Promise<LibraryBundle> {
+  const url = bundleUrl(toolchain);
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./lean-bundle-worker.ts', import.meta.url), { type: 'module' });
+
+    worker.onmessage = (event: MessageEvent<BundleWorkerResponse>) => {
+      const msg = event.data;
+      if (msg.type === 'progress') {
+        onProgress?.(msg.received, msg.total);
+        return;
+      }
+      worker.terminate();
+      if (msg.type === 'error') {
+        reject(new Error(msg.message));
+        return;
+      }
+      const files = new Map<string, Uint8Array>();
+      // Bundles may be rooted at lean-lib/; keys must match lean-lib-files.json
+      msg.names.forEach((name, i) => files.set(name.replace(/^lean-lib\//, ''), new Uint8Array(msg.buffers[i])));
+      console.log(`Unpacked ${files.size} files from ${url}`);
+      resolve({ files, compressedBytes: msg.compressedBytes });
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(`Bundle worker failed: ${event.message}`));
+    };
+
+    const request: BundleWorkerRequest = { url, cacheName: getCacheName(toolchain) ?? undefined };
+    worker.postMessage(request);
+  });
+}
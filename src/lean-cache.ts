@@ -0,0 +1,142 @@
+/**
+ * Persistent cache for lean.wasm and library files
+ * Uses Cache Storage so downloads survive page reloads. Each cache is named after
+ * the toolchain version and the manifest's `generated` stamp; selecting a
+ * generation deletes the toolchain's other ones, so a new build invalidates everything
+ * at once while other toolchains keep their caches. Every call names the toolchain, so
+ * a download still running for one toolchain never lands in another's cache.
+ */
+
+import { libraryUrl } from './toolchains';
+import type { Toolchain } from './toolchains';
+
+const CACHE_PREFIX = 'lean-wasm:';
+
+export interface CacheStats {
+  entries: number;
+  bytes: number;
+}
+
+// Selected cache generation per toolchain version; set by initCache()
+const cacheNames = new Map<string, string>();
+
+function isCacheStorageAvailable(): boolean {
+  return typeof caches !== 'undefined';
+}
+
+function cachePrefix(toolchain: Toolchain): string {
+  return `${CACHE_PREFIX}${toolchain.version}:`;
+}
+
+export function getCacheName(toolchain: Toolchain): string | null {
+  return cacheNames.get(toolchain.version) ?? null;
+}
+
+// Select the cache generation for a toolchain + manifest stamp and drop the toolchain's
+// other generations. Until this is called, cachedFetch() goes straight to the network.
+export async function initCache(toolchain: Toolchain, generated: string): Promise<string | null> {
+  if (!isCacheStorageAvailable()) return null;
+  const prefix = cachePrefix(toolchain);
+  const name = `${prefix}${generated}`;
+  
+  for (const key of await caches.keys()) {
+    if (key.startsWith(prefix) && key !== name) {
+      console.log(`Invalidating stale cache: ${key}`);
+      await caches.delete(key);
+    }
+  }
+  cacheNames.set(toolchain.version, name);
+  return name;
+}
+
+async function openCache(toolchain: Toolchain): Promise<Cache | null> {
+  const name = getCacheName(toolchain);
+  return name ? caches.open(name) : null;
+}
+
+// fetch() that reads through the persistent cache. Only successful responses are stored.
+export async function cachedFetch(toolchain: Toolchain, url: string): Promise<Response> {
+  const cache = await openCache(toolchain);
+  if (!cache) return fetch(url);
+
+  const hit = await cache.match(url);
+  if (hit) return hit;
+
+  const response = await fetch(url);
+  if (response.ok) {
+    try {
+      await cache.put(url, response.clone());
+    } catch (e) {
+      // Quota exceeded etc. - the response is still usable
+      console.warn(`Failed to cache ${url}:`, e);
+    }
+  }
+  return response;
+}
+
+// Drop one stored response, e.g. a download that turned out to be damaged
+export async function evictCached(toolchain: Toolchain, url: string): Promise<void> {
+  const cache = await openCache(toolchain);
+  await cache?.delete(url);
+}
+
+// Count entries and bytes stored in the toolchain's current cache generation
+export async function getCacheStats(toolchain: Toolchain): Promise<CacheStats> {
+  const cache = await openCache(toolchain);
+  if (!cache) return { entries: 0, bytes: 0 };
+
+  const requests = await cache.keys();
+  let bytes = 0;
+  for (const request of requests) {
+    const response = await cache.match(request);
+    if (!response) continue;
+    const length = response.headers.get('content-length');
+    bytes += length ? parseInt(length, 10) : (await response.blob()).size;
+  }
+  return { entries: requests.length, bytes };
+}
+
+// Delete every entry stored for the toolchain (its generation stays selected); other
+// toolchains keep theirs
+export async function clearCache(toolchain: Toolchain): Promise<void> {
+  if (!isCacheStorageAvailable()) return;
+  const prefix = cachePrefix(toolchain);
+  for (const key of await caches.keys()) {
+    if (key.startsWith(prefix)) {
+      await caches.delete(key);
+    }
+  }
+}
+
+// Download a toolchain's lean.wasm and the given library files into the cache
+export async function prewarmCache(
+  toolchain: Toolchain,
+  fileList: string[],
+  onProgress?: (loaded: number, total: number) => void
+): Promise<void> {
+  const cache = await openCache(toolchain);
+  if (!cache) throw new Error('Persistent cache is not available');
+
+  const urls = [`${toolchain.baseUrl}lean.wasm`, ...fileList.map(p => `${libraryUrl(toolchain)}${p}`)];
+  const total = urls.length;
+  let loaded = 0;
+
+  const queue = [...urls];
+  const worker = async () => {
+    while (queue.length > 0) {
+      const url = queue.shift()!;
+      try {
+        if (!(await cache.match(url))) {
+          const response = await fetch(url);
+          if (response.ok) await cache.put(url, response);
+        }
+      } catch (e) {
+        console.warn(`Failed to pre-warm ${url}:`, e);
+      }
+      loaded++;
+      onProgress?.(loaded, total);
+    }
+  };
+
+  await Promise.all(Array.from({ length: 20 }, worker));
+}
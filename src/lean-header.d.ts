@@ -0,0 +1,32 @@
+// Types for lean-header.js
+
+// UTF-16 offsets into the parsed text, end exclusive
+export interface SourceRange {
+  start: number;
+  end: number;
+}
+
+export interface HeaderImport {
+  module: string;               // Module name without «» escapes, e.g. Lean.Elab
+  range: SourceRange;           // The module name
+  statementRange: SourceRange;  // The whole `public meta import all ...` statement
+  isPublic: boolean;
+  isMeta: boolean;
+  importAll: boolean;
+}
+
+export interface LeanHeader {
+  isModule: boolean;            // Starts with `module` (the module system)
+  moduleRange?: SourceRange;
+  isPrelude: boolean;           // `prelude`: no implicit `import Init`
+  preludeRange?: SourceRange;
+  imports: HeaderImport[];
+  range: SourceRange | null;    // From the first header keyword to the end of the last import; null without a header
+  end: number;                  // End of the header, 0 without one
+  bodyStart?: number;           // First non-comment character after the header
+}
+
+export function parseHeader(text: string): LeanHeader;
+
+// Imported module names in order, without duplicates
+export function headerImports(text: string): string[];
@@ -0,0 +1,157 @@
+/**
+ * Lean file header parser, shared by the app (lean-loader.ts) and scripts/gen-manifest.mjs
+ *
+ *   header := [module] [prelude] import*
+ *   import := [public] [meta] import [all] ident+
+ *
+ * Plain JavaScript so the Node scripts can import it as is; the types are in
+ * lean-header.d.ts, which tsconfig.node.json checks this file against, and
+ * lean-header.test.js is its test corpus (`npm test`).
+ *
+ * Comments (`--` and nested `/- -/`) may appear anywhere in the header. Parsing stops
+ * at the first token that can't continue the header. Ranges are UTF-16 offsets into
+ * the text, like JS string indices.
+ *
+ * Lean 4 itself takes one module per `import`; further names on the same line
+ * (`import A B`, as in Lean 3 style snippets) are read as more imports.
+ */
+
+/** @typedef {import('./lean-header').SourceRange} SourceRange */
+
+const HEADER_KEYWORDS = new Set(['module', 'prelude', 'public', 'meta', 'import', 'all']);
+
+/** @param {string} ch */
+const isIdentStart = (ch) => /[\p{L}_«]/u.test(ch) && !'λΠΣ'.includes(ch);
+/** @param {string} ch */
+const isIdentRest = (ch) => /[\p{L}\p{N}_'!?₀-₉ₐ-ₜᵢ-ᵪⱼ]/u.test(ch) && !'λΠΣ'.includes(ch);
+
+// Offset after whitespace and comments from `pos`
+/** @type {(text: string, pos: number) => number} */
+function skipTrivia(text, pos) {
+  while (pos < text.length) {
+    const ch = text[pos];
+    if (/\s/.test(ch)) {
+      pos++;
+    } else if (ch === '-' && text[pos + 1] === '-') {
+      const newline = text.indexOf('\n', pos);
+      pos = newline < 0 ? text.length : newline + 1;
+    } else if (ch === '/' && text[pos + 1] === '-') {
+      // Block comments nest; an unterminated one runs to the end
+      let depth = 0;
+      while (pos < text.length) {
+        if (text[pos] === '/' && text[pos + 1] === '-') { depth++; pos += 2; }
+        else if (text[pos] === '-' && text[pos + 1] === '/') { depth--; pos += 2; if (depth === 0) break; }
+        else pos++;
+      }
+    } else {
+      break;
+    }
+  }
+  return pos;
+}
+
+// A dotted identifier at `pos` (parts may be «escaped»), or null
+/** @type {(text: string, pos: number) => { name: string, range: SourceRange } | null} */
+function readIdent(text, pos) {
+  const start = pos;
+  for (;;) {
+    if (text[pos] === '«') {
+      const close = text.indexOf('»', pos + 1);
+      if (close < 0) return null;
+      pos = close + 1;
+    } else if (pos < text.length && isIdentStart(text[pos])) {
+      pos++;
+      while (pos < text.length && isIdentRest(text[pos])) pos++;
+    } else {
+      return null;
+    }
+    if (text[pos] !== '.' || !(text[pos + 1] === '«' || isIdentStart(text[pos + 1] ?? ''))) break;
+    pos++;
+  }
+  const raw = text.slice(start, pos);
+  // `«Foo».Bar` names the module Foo.Bar
+  return { name: raw.replace(/[«»]/g, ''), range: { start, end: pos } };
+}
+
+/** @type {import('./lean-header').parseHeader} */
+export function parseHeader(text) {
+  /** @type {import('./lean-header').LeanHeader} */
+  const header = { isModule: false, isPrelude: false, imports: [], range: null, end: 0 };
+  let pos = skipTrivia(text, 0);
+  let headerStart = -1;
+
+  // The word at `pos` if it is `keyword`
+  /** @type {(at: number, keyword: string) => SourceRange | null} */
+  const keywordAt = (at, keyword) => {
+    const ident = readIdent(text, at);
+    return ident && ident.name === keyword && ident.range.end - at === keyword.length ? ident.range : null;
+  };
+  /** @param {SourceRange} range */
+  const take = (range) => {
+    if (headerStart < 0) headerStart = range.start;
+    header.end = range.end;
+    pos = skipTrivia(text, range.end);
+  };
+
+  const moduleRange = keywordAt(pos, 'module');
+  if (moduleRange) {
+    header.isModule = true;
+    header.moduleRange = moduleRange;
+    take(moduleRange);
+  }
+  const preludeRange = keywordAt(pos, 'prelude');
+  if (preludeRange) {
+    header.isPrelude = true;
+    header.preludeRange = preludeRange;
+    take(preludeRange);
+  }
+
+  for (;;) {
+    const statementStart = pos;
+    let at = pos;
+    const publicRange = keywordAt(at, 'public');
+    if (publicRange) at = skipTrivia(text, publicRange.end);
+    const metaRange = keywordAt(at, 'meta');
+    if (metaRange) at = skipTrivia(text, metaRange.end);
+    const importRange = keywordAt(at, 'import');
+    if (!importRange) break;
+    at = skipTrivia(text, importRange.end);
+    const allRange = keywordAt(at, 'all');
+    if (allRange) at = skipTrivia(text, allRange.end);
+
+    // At least one module; more only on the same line
+    const first = readIdent(text, at);
+    if (!first || HEADER_KEYWORDS.has(first.name)) break;
+    const names = [first];
+    for (;;) {
+      const last = names[names.length - 1].range.end;
+      const next = skipTrivia(text, last);
+      const ident = readIdent(text, next);
+      if (!ident || HEADER_KEYWORDS.has(ident.name) || text.slice(last, next).includes('\n')) break;
+      names.push(ident);
+    }
+
+    const statementRange = { start: statementStart, end: names[names.length - 1].range.end };
+    for (const ident of names) {
+      header.imports.push({
+        module: ident.name,
+        range: ident.range,
+        statementRange,
+        isPublic: publicRange !== null,
+        isMeta: metaRange !== null,
+        importAll: allRange !== null,
+      });
+    }
+    take(statementRange);
+  }
+
+  header.range = headerStart < 0 ? null : { start: headerStart, end: header.end };
+  header.bodyStart = pos;
+  return header;
+}
+
+// Imported module names in order, without duplicates
+/** @type {import('./lean-header').headerImports} */
+export function headerImports(text) {
+  return [...new Set(parseHeader(text).imports.map((imp) => imp.module))];
+}
@@ -0,0 +1,110 @@
+// Corpus for the header parser; run with `npm test`
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { headerImports, parseHeader } from './lean-header.js';
+
+// The text a range covers
+/** @type {(text: string, range: import('./lean-header').SourceRange | null | undefined) => string} */
+const slice = (text, range) => (range ? text.slice(range.start, range.end) : '');
+
+test('plain imports, one per line', () => {
+  assert.deepEqual(headerImports('import Lean\nimport Std.Data.HashMap\n\ndef x := 1'), ['Lean', 'Std.Data.HashMap']);
+});
+
+test('no header', () => {
+  const header = parseHeader('def x := 1\nimport Lean');
+  assert.deepEqual(header.imports, []);
+  assert.equal(header.range, null);
+  assert.equal(header.end, 0);
+  assert.equal(header.bodyStart, 0);
+});
+
+test('line and nested block comments around and between imports', () => {
+  const text = [
+    '/- outer /- inner -/ import Hidden -/',
+    '-- import AlsoHidden',
+    'import A /- /- -/ import NotThis -/',
+    'import B -- trailing',
+    '/-- doc comment -/',
+    'def x := 1',
+  ].join('\n');
+  assert.deepEqual(headerImports(text), ['A', 'B']);
+  // bodyStart skips comments, doc comments included
+  assert.equal(parseHeader(text).bodyStart, text.indexOf('def'));
+});
+
+test('an unterminated block comment ends the header', () => {
+  assert.deepEqual(headerImports('import A\n/- never closed\nimport B'), ['A']);
+});
+
+test('prelude', () => {
+  const text = 'prelude\nimport Init.Core\n';
+  const header = parseHeader(text);
+  assert.equal(header.isPrelude, true);
+  assert.equal(slice(text, header.preludeRange), 'prelude');
+  assert.deepEqual(headerImports(text), ['Init.Core']);
+  assert.equal(parseHeader('import Init.Core').isPrelude, false);
+});
+
+test('module with public meta import all and several names', () => {
+  const text = 'module\n\npublic meta import all A B C\nimport D\n';
+  const header = parseHeader(text);
+  assert.equal(header.isModule, true);
+  assert.equal(slice(text, header.moduleRange), 'module');
+  assert.deepEqual(header.imports.map(i => i.module), ['A', 'B', 'C', 'D']);
+  for (const imp of header.imports.slice(0, 3)) {
+    assert.equal(imp.isPublic, true);
+    assert.equal(imp.isMeta, true);
+    assert.equal(imp.importAll, true);
+    assert.equal(slice(text, imp.statementRange), 'public meta import all A B C');
+  }
+  const [, , , d] = header.imports;
+  assert.deepEqual([d.isPublic, d.isMeta, d.importAll], [false, false, false]);
+  assert.equal(slice(text, d.statementRange), 'import D');
+});
+
+test('further names only continue an import on the same line', () => {
+  assert.deepEqual(headerImports('import A B\nC'), ['A', 'B']);
+  assert.deepEqual(headerImports('import A\n  B'), ['A']);
+});
+
+test('imports after the first command are not part of the header', () => {
+  const text = 'import A\ntheorem t : True := trivial\nimport B\n';
+  assert.deepEqual(headerImports(text), ['A']);
+  assert.equal(parseHeader(text).bodyStart, text.indexOf('theorem'));
+});
+
+test('an import without a module name ends the header', () => {
+  assert.deepEqual(headerImports('import A\nimport\nimport B'), ['A']);
+  assert.deepEqual(headerImports('import all'), []);
+});
+
+test('escaped names', () => {
+  const text = 'import «My Lib».Basic\nimport Foo.«bar baz»';
+  const header = parseHeader(text);
+  assert.deepEqual(header.imports.map(i => i.module), ['My Lib.Basic', 'Foo.bar baz']);
+  assert.equal(slice(text, header.imports[0].range), '«My Lib».Basic');
+});
+
+test('duplicates are listed once', () => {
+  assert.deepEqual(headerImports('import A\nimport B\nimport A'), ['A', 'B']);
+});
+
+test('ranges', () => {
+  const text = '-- intro\nmodule\nimport Lean.Elab  -- x\n\ndef x := 1';
+  const header = parseHeader(text);
+  const [imp] = header.imports;
+  assert.equal(slice(text, imp.range), 'Lean.Elab');
+  assert.equal(slice(text, imp.statementRange), 'import Lean.Elab');
+  assert.equal(slice(text, header.range), 'module\nimport Lean.Elab');
+  assert.equal(header.end, text.indexOf('  -- x'));
+  assert.equal(header.bodyStart, text.indexOf('def'));
+});
+
+test('ranges are UTF-16 offsets', () => {
+  const text = '-- λ 𝔽\nimport Mathlib.Algebra';
+  const [imp] = parseHeader(text).imports;
+  assert.equal(imp.range.start, text.indexOf('Mathlib'));
+  assert.equal(slice(text, imp.range), 'Mathlib.Algebra');
+});
@@ -0,0 +1,67 @@
+// Corpus for import resolution against the manifest; run with `npm test`
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { analyzeCodeDependencies, suggestModules } from './lean-loader.ts';
+
+// Init is complete; Std.Data imports a module the manifest lacks
+const manifest = {
+  version: '1',
+  generated: '2026-01-01T00:00:00Z',
+  modules: {
+    'Init': { imports: [] },
+    'Std.Data': { imports: ['Init', 'Std.Data.Gone'] },
+    'Std.Lemmas': { imports: ['Std.Data'] },
+    'Std': { imports: ['Std.Data', 'Std.Lemmas'] },
+  },
+};
+
+// The manifest is the only file the analysis fetches
+globalThis.fetch = async () => new Response(JSON.stringify(manifest));
+
+let version = 0;
+// A fresh toolchain per test, so each loads the manifest above
+const toolchain = () => ({ version: `test-${version++}`, baseUrl: '/lean-wasm/', manifestUrl: '/lean-manifest.json' });
+
+test('collects transitive dependencies', async () => {
+  const result = await analyzeCodeDependencies(toolchain(), 'import Std.Lemmas\n');
+  assert.deepEqual(result.explicitImports, ['Std.Lemmas']);
+  assert.deepEqual(result.implicitImports, ['Init']);
+  assert.deepEqual(result.allModules, ['Init', 'Std.Data', 'Std.Data.Gone', 'Std.Lemmas']);
+});
+
+test('reports an unknown import at the import, with suggestions', async () => {
+  const code = 'import Std.Dta\n';
+  const [unresolved] = (await analyzeCodeDependencies(toolchain(), code)).unresolvedModules;
+  assert.equal(unresolved.module, 'Std.Dta');
+  assert.equal(unresolved.importedBy, undefined);
+  assert.equal(code.slice(unresolved.range.start, unresolved.range.end), 'Std.Dta');
+  assert.deepEqual(unresolved.suggestions, ['Std.Data']);
+});
+
+test('names the module whose manifest entry imports a missing module', async () => {
+  const { unresolvedModules } = await analyzeCodeDependencies(toolchain(), 'import Std.Lemmas\n');
+  assert.equal(unresolvedModules.length, 1);
+  assert.equal(unresolvedModules[0].module, 'Std.Data.Gone');
+  assert.equal(unresolvedModules[0].importedBy, 'Std.Data');
+});
+
+test('reports a missing module at every import that reaches it', async () => {
+  const code = 'import Std.Data\nimport Std.Lemmas\nimport Std\n';
+  const { unresolvedModules } = await analyzeCodeDependencies(toolchain(), code);
+  assert.deepEqual(
+    unresolvedModules.map(u => [u.module, code.slice(u.range.start, u.range.end), u.importedBy]),
+    [
+      ['Std.Data.Gone', 'Std.Data', 'Std.Data'],
+      ['Std.Data.Gone', 'Std.Lemmas', 'Std.Data'],
+      ['Std.Data.Gone', 'Std', 'Std.Data'],
+    ]
+  );
+});
+
+test('suggests close module names, best first', () => {
+  const known = ['Std.Data', 'Std.Date', 'Init', 'Mathlib.Data'];
+  assert.deepEqual(suggestModules('Std.Dat', known), ['Std.Data', 'Std.Date']);
+  assert.deepEqual(suggestModules('Init', known), []);
+  assert.deepEqual(suggestModules('Completely.Different', known), []);
+});
@@ -3,194 +3,353 @@
  * Parses user code for imports and computes required .olean files
  */
 
+import { cachedFetch, evictCached } from './lean-cache';
+import { headerImports, parseHeader } from './lean-header';
+import type { SourceRange } from './lean-header';
+import { readOleanHeader } from './olean-header';
+import { fileListUrl, libraryUrl } from './toolchains';
+import type { Toolchain } from './toolchains';
+
+// Files a module can have in the library; .server and .private exist only for modules
+// using the `module` keyword
+export type OleanVariant = 'olean' | 'olean.server' | 'olean.private';
+const OLEAN_VARIANTS: OleanVariant[] = ['olean', 'olean.server', 'olean.private'];
+
+// A library file as a v2 manifest describes it
+export interface LibraryFileInfo {
+  size: number;      // Bytes
+  sha256: string;    // Hex digest
+}
+
 interface ModuleInfo {
   path: string;
   imports: string[];
+  variants?: Partial<Record<OleanVariant, LibraryFileInfo>>;  // v2: the files the library has
 }
 
-interface Manifest {
+// Manifest versions this loader reads: 1 (imports only) and 2 (adds `variants` and
+// `toolchain`, see scripts/gen-manifest.mjs)
+const SUPPORTED_MANIFEST_VERSIONS = [1, 2];
+
+export interface Manifest {
   version: string;
   generated: string;
+  toolchain?: string;
   modules: Record<string, ModuleInfo>;
 }
 
-let manifest: Manifest | null = null;
-let manifestPromise: Promise<Manifest> | null = null;
+// Per toolchain, by version
+const manifests = new Map<string, Promise<Manifest>>();
+const manifestFiles = new Map<string, Map<string, LibraryFileInfo>>();
+const fileLists = new Map<string, string[]>();
 
-// Load manifest (cached)
-export async function loadManifest(): Promise<Manifest> {
-  if (manifest) return manifest;
-  if (manifestPromise) return manifestPromise;
+// Average .olean size, for files a v1 manifest has no size for
+const AVERAGE_OLEAN_SIZE = 50 * 1024;
+
+// Load the manifest of `toolchain` (cached)
+export async function loadManifest(toolchain: Toolchain): Promise<Manifest> {
+  const cached = manifests.get(toolchain.version);
+  if (cached) return cached;
   
-  manifestPromise = fetch('/lean-manifest.json')
+  // Always revalidate: the manifest stamp decides whether the persistent cache is stale
+  const manifestPromise = fetch(toolchain.manifestUrl, { cache: 'no-cache' })
     .then(r => {
       if (!r.ok) throw new Error('Failed to load lean-manifest.json');
       return r.json();
     })
-    .then(m => {
-      manifest = m;
+    .then((m: Manifest) => {
+      if (!SUPPORTED_MANIFEST_VERSIONS.includes(parseInt(m.version))) {
+        throw new Error(`lean-manifest.json version ${m.version} is not supported`);
+      }
       return m;
+    })
+    .catch(e => {
+      // Don't cache the failure - a later call may succeed
+      manifests.delete(toolchain.version);
+      throw e;
     });
+  manifests.set(toolchain.version, manifestPromise);
   
   return manifestPromise;
 }
 
-// Parse import statements from user's Lean code
-export function parseUserImports(code: string): string[] {
-  const imports: string[] = [];
-  const lines = code.split('\n');
-  
-  for (const line of lines) {
-    const trimmed = line.trim();
-    
-    // Skip comments
-    if (trimmed.startsWith('--')) continue;
-    
-    // Match import statements
-    const importMatch = trimmed.match(/^(?:public\s+)?(?:meta\s+)?import\s+(\S+)/);
-    if (importMatch) {
-      imports.push(importMatch[1]);
+// Whether the manifest lists each module's library files (v2)
+function hasFileInfo(m: Manifest): boolean {
+  return parseInt(m.version) >= 2;
+}
+
+// Size and hash of every library file by path (e.g. Init/Prelude.olean); empty for a
+// v1 manifest
+export async function getLibraryFileInfo(toolchain: Toolchain): Promise<Map<string, LibraryFileInfo>> {
+  const m = await loadManifest(toolchain);
+  let files = manifestFiles.get(toolchain.version);
+  if (!files) {
+    files = new Map();
+    for (const [mod, info] of Object.entries(m.modules)) {
+      for (const variant of OLEAN_VARIANTS) {
+        const file = info.variants?.[variant];
+        if (file) files.set(`${mod.replace(/\./g, '/')}.${variant}`, file);
+      }
     }
+    manifestFiles.set(toolchain.version, files);
   }
-  
-  return imports;
+  return files;
+}
+
+// Modules imported by the user's Lean code, in order
+export function parseUserImports(code: string): string[] {
+  return headerImports(code);
 }
 
 // Determine implicit imports based on code features
 export function detectImplicitImports(code: string): string[] {
-  const imports: string[] = [];
-  
-  // If no explicit imports, Lean implicitly imports Init
-  // This is the prelude behavior
-  if (!code.includes('prelude')) {
-    imports.push('Init');
-  }
-  
-  return imports;
+  // Every file but a `prelude` one implicitly imports Init
+  return parseHeader(code).isPrelude ? [] : ['Init'];
+}
+
+// Transitive dependencies of a module, and those of them the manifest lacks, each with
+// the module whose manifest entry imports it
+interface ModuleClosure {
+  deps: Set<string>;
+  missing: Map<string, string>;
 }
 
 // Compute transitive dependencies for a module
 function getTransitiveDeps(
   moduleName: string,
   modules: Record<string, ModuleInfo>,
-  cache: Map<string, Set<string>> = new Map(),
+  cache: Map<string, ModuleClosure> = new Map(),
   visited: Set<string> = new Set()
-): Set<string> {
+): ModuleClosure {
+  const cached = cache.get(moduleName);
+  if (cached) return cached;
+  
+  const closure: ModuleClosure = { deps: new Set(), missing: new Map() };
   // Prevent infinite loops
-  if (visited.has(moduleName)) {
-    return cache.get(moduleName) || new Set();
-  }
+  if (visited.has(moduleName)) return closure;
   visited.add(moduleName);
   
-  if (cache.has(moduleName)) {
-    return cache.get(moduleName)!;
-  }
-  
-  const deps = new Set<string>();
   const moduleInfo = modules[moduleName];
-  
-  if (!moduleInfo) {
-    // Module not in manifest - might be external or typo
-    console.warn(`Module not found in manifest: ${moduleName}`);
-    return deps;
-  }
+  // Module not in manifest - the caller reports it
+  if (!moduleInfo) return closure;
   
   // Add direct dependencies
   for (const imp of moduleInfo.imports) {
-    // Skip special markers like "all" that appear in some imports
+    // Older manifests list `import all Foo` as an import of "all"
     if (imp === 'all') continue;
     
-    deps.add(imp);
+    closure.deps.add(imp);
+    if (!modules[imp]) {
+      if (!closure.missing.has(imp)) closure.missing.set(imp, moduleName);
+      continue;
+    }
     
     // Recursively get transitive deps
     const transitive = getTransitiveDeps(imp, modules, cache, visited);
-    for (const t of transitive) {
-      deps.add(t);
+    for (const t of transitive.deps) {
+      closure.deps.add(t);
+    }
+    for (const [module, importedBy] of transitive.missing) {
+      if (!closure.missing.has(module)) closure.missing.set(module, importedBy);
     }
   }
   
-  cache.set(moduleName, deps);
-  return deps;
+  cache.set(moduleName, closure);
+  return closure;
 }
 
 // Get all required .olean paths for given imports
-// Returns all possible file paths (.olean, .olean.server, .olean.private)
-export async function getRequiredOleanPaths(imports: string[]): Promise<string[]> {
-  const m = await loadManifest();
+// A v2 manifest says which of .olean, .olean.server and .olean.private exist; with a
+// v1 manifest every variant is listed and the missing ones 404
+export async function getRequiredOleanPaths(toolchain: Toolchain, imports: string[]): Promise<string[]> {
+  const m = await loadManifest(toolchain);
   const allModules = new Set<string>();
-  const cache = new Map<string, Set<string>>();
+  const cache = new Map<string, ModuleClosure>();
   
   // Add each import and its transitive deps
   for (const imp of imports) {
     allModules.add(imp);
-    const deps = getTransitiveDeps(imp, m.modules, cache);
+    const { deps } = getTransitiveDeps(imp, m.modules, cache);
     for (const dep of deps) {
       allModules.add(dep);
     }
   }
   
-  // Convert module names to all possible .olean paths
-  // Modules using `module` keyword have .olean.server and .olean.private files
   const paths: string[] = [];
   for (const mod of allModules) {
     const basePath = mod.replace(/\./g, '/');
-    paths.push(`${basePath}.olean`);
-    paths.push(`${basePath}.olean.server`);
-    paths.push(`${basePath}.olean.private`);
+    const variants = hasFileInfo(m) ? m.modules[mod]?.variants ?? {} : null;
+    for (const variant of OLEAN_VARIANTS) {
+      if (!variants || variants[variant]) paths.push(`${basePath}.${variant}`);
+    }
   }
   
   return paths.sort();
 }
 
+// A module the code needs that the manifest doesn't have, once for each import that
+// needs it
+export interface UnresolvedModule {
+  module: string;
+  // The import in the code that needs it: the module itself, or one that imports it
+  // (the manifest is then incomplete). Unset for the implicit `import Init`.
+  range?: SourceRange;
+  importedBy?: string;     // Set when the manifest entry of this module imports it
+  suggestions: string[];   // Closest known module names, best first
+}
+
+// Edit distance between two names, ignoring case
+function editDistance(a: string, b: string): number {
+  a = a.toLowerCase();
+  b = b.toLowerCase();
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Up to `limit` names from `known` close enough to `name` to be what was meant
+export function suggestModules(name: string, known: Iterable<string>, limit = 3): string[] {
+  const maxDistance = Math.max(2, Math.floor(name.length / 3));
+  const scored: { module: string; distance: number }[] = [];
+  for (const module of known) {
+    if (module === name || Math.abs(module.length - name.length) > maxDistance) continue;
+    const distance = editDistance(name, module);
+    if (distance <= maxDistance) scored.push({ module, distance });
+  }
+  return scored
+    .sort((a, b) => a.distance - b.distance || a.module.length - b.module.length || a.module.localeCompare(b.module))
+    .slice(0, limit)
+    .map(s => s.module);
+}
+
 // Main function: analyze code and return required .olean paths
-export async function analyzeCodeDependencies(code: string): Promise<{
+// Imports of `localModules` (workspace files, compiled separately) are left out
+export async function analyzeCodeDependencies(
+  toolchain: Toolchain,
+  code: string,
+  localModules: ReadonlySet<string> = new Set()
+): Promise<{
   explicitImports: string[];
   implicitImports: string[];
   allModules: string[];
   oleanPaths: string[];
+  unresolvedModules: UnresolvedModule[];
 }> {
-  const explicitImports = parseUserImports(code);
+  const header = parseHeader(code);
+  const explicitImports = headerImports(code).filter(imp => !localModules.has(imp));
   const implicitImports = detectImplicitImports(code);
   const allImports = [...new Set([...explicitImports, ...implicitImports])];
   
-  const m = await loadManifest();
+  const m = await loadManifest(toolchain);
   const allModules = new Set<string>();
-  const cache = new Map<string, Set<string>>();
+  const cache = new Map<string, ModuleClosure>();
+  // By module and the import it is reported at
+  const unresolved = new Map<string, UnresolvedModule>();
+  const known = [...Object.keys(m.modules), ...localModules];
   
   for (const imp of allImports) {
     allModules.add(imp);
-    const deps = getTransitiveDeps(imp, m.modules, cache);
+    const { deps, missing } = getTransitiveDeps(imp, m.modules, cache);
     for (const dep of deps) {
       allModules.add(dep);
     }
+    
+    // Modules missing below this import are reported at it, even when an earlier
+    // import already reached them
+    const range = header.imports.find(i => i.module === imp)?.range;
+    const report = (module: string, importedBy?: string) => {
+      const key = `${module}\0${imp}`;
+      if (unresolved.has(key)) return;
+      unresolved.set(key, {
+        module,
+        range,
+        ...(importedBy && { importedBy }),
+        suggestions: suggestModules(module, known),
+      });
+    };
+    if (!m.modules[imp]) report(imp);
+    for (const [module, importedBy] of missing) report(module, importedBy);
   }
   
-  const oleanPaths = await getRequiredOleanPaths(allImports);
+  const oleanPaths = await getRequiredOleanPaths(toolchain, allImports);
   
   return {
     explicitImports,
     implicitImports,
     allModules: [...allModules].sort(),
     oleanPaths,
+    unresolvedModules: [...unresolved.values()].sort((a, b) =>
+      a.module.localeCompare(b.module) || (a.range?.start ?? -1) - (b.range?.start ?? -1)),
   };
 }
 
-// .olean file magic bytes (first 4 bytes should be "olean" header marker)
-const OLEAN_MAGIC = new Uint8Array([0x6f, 0x6c, 0x65, 0x61]); // "olea"
+// Imports of `code` that neither the manifest nor the complete file list has, so Lean
+// can't load them. Modules only the manifest lacks still load from the full library.
+export async function findUnknownImports(
+  toolchain: Toolchain,
+  code: string,
+  localModules: ReadonlySet<string> = new Set()
+): Promise<UnresolvedModule[]> {
+  const { unresolvedModules } = await analyzeCodeDependencies(toolchain, code, localModules);
+  if (unresolvedModules.length === 0) return [];
+  const available = new Set(await fetchCompleteFileList(toolchain));
+  return unresolvedModules.filter(u =>
+    available.size === 0 || !available.has(`${u.module.replace(/\./g, '/')}.olean`));
+}
 
 // Validate that data looks like an .olean file
 function isValidOlean(data: Uint8Array): boolean {
-  if (data.length < 32) return false; // Too small for header
-  // Check magic bytes
-  for (let i = 0; i < 4; i++) {
-    if (data[i] !== OLEAN_MAGIC[i]) return false;
+  return data.length >= 32 && readOleanHeader(data) !== null;
+}
+
+// The start of a library file, enough for its header (see olean-header.ts), without
+// downloading the rest where the server honours the range
+export async function fetchOleanHead(toolchain: Toolchain, path: string): Promise<Uint8Array | null> {
+  const response = await fetch(`${libraryUrl(toolchain)}${path}`, { headers: { Range: 'bytes=0-127' } });
+  return response.ok ? new Uint8Array(await response.arrayBuffer()).slice(0, 128) : null;
+}
+
+// One .olean per package root (Init, Std, Lean, ...) of `paths`, by root: packages are
+// built together, so a stale or mixed library shows in any of their files
+export function samplePerPackage(paths: string[]): Map<string, string> {
+  const samples = new Map<string, string>();
+  for (const path of paths) {
+    const root = path.split('/')[0].replace(/\.olean$/, '');
+    if (path.endsWith('.olean') && !samples.has(root)) samples.set(root, path);
   }
-  return true;
+  return samples;
+}
+
+// Whether `data` is the file the manifest describes. Without WebCrypto (pages that
+// aren't a secure context) only the size is compared.
+async function matchesFileInfo(data: Uint8Array<ArrayBuffer>, info: LibraryFileInfo): Promise<boolean> {
+  if (data.length !== info.size) return false;
+  if (!crypto.subtle) return true;
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+  return Array.from(digest, b => b.toString(16).padStart(2, '0')).join('') === info.sha256;
+}
+
+async function fetchBytes(toolchain: Toolchain, url: string): Promise<Uint8Array<ArrayBuffer> | null> {
+  const response = await cachedFetch(toolchain, url);
+  return response.ok ? new Uint8Array(await response.arrayBuffer()) : null;
 }
 
 // Fetch specific .olean files from the server
-// Silently ignores 404s for .olean.server/.olean.private (they don't exist for all modules)
+// Silently ignores 404s for .olean.server/.olean.private (they don't exist for all modules).
+// Files a v2 manifest describes are checked against its size and hash; throws if one
+// still doesn't match after downloading it again.
 export async function fetchOleanFiles(
+  toolchain: Toolchain,
   paths: string[],
   onProgress?: (loaded: number, total: number) => void
 ): Promise<Map<string, Uint8Array>> {
@@ -198,6 +357,9 @@ export async function fetchOleanFiles(
   const total = paths.length;
   let loaded = 0;
   let invalidCount = 0;
+  const corrupt: string[] = [];
+  const known = await getLibraryFileInfo(toolchain).catch(() => new Map<string, LibraryFileInfo>());
+  const baseUrl = libraryUrl(toolchain);
   
   // Fetch in parallel with concurrency limit
   const concurrency = 20;  // Increase for many small files
@@ -207,10 +369,20 @@ export async function fetchOleanFiles(
   const fetchOne = async () => {
     while (queue.length > 0) {
       const path = queue.shift()!;
+      const url = `${baseUrl}${path}`;
+      const info = known.get(path);
       try {
-        const response = await fetch(`/lean-wasm/lean-lib/${path}`);
-        if (response.ok) {
-          const data = new Uint8Array(await response.arrayBuffer());
+        let data = await fetchBytes(toolchain, url);
+        if (data && info && !(await matchesFileInfo(data, info))) {
+          // A damaged copy may be in the persistent cache: drop it and download again
+          await evictCached(toolchain, url);
+          data = await fetchBytes(toolchain, url);
+          if (data && !(await matchesFileInfo(data, info))) {
+            corrupt.push(path);
+            data = null;
+          }
+        }
+        if (data) {
           // Validate the file looks like an .olean
           if (isValidOlean(data)) {
             files.set(path, data);
@@ -222,6 +394,9 @@ export async function fetchOleanFiles(
             }
           }
         }
+        else if (info && !corrupt.includes(path)) {
+          console.warn(`Library file in the manifest not found on the server: ${path}`);
+        }
         // Silently ignore 404s - .olean.server/.olean.private may not exist
       } catch (e) {
         // Network error - also ignore for optional files
@@ -243,29 +418,35 @@ export async function fetchOleanFiles(
   if (invalidCount > 0) {
     console.error(`Found ${invalidCount} invalid .olean files. Make sure .olean files match the lean.wasm version!`);
   }
+  if (corrupt.length > 0) {
+    throw new Error(
+      `${corrupt.length} library files don't match lean-manifest.json (${corrupt.slice(0, 3).join(', ')}` +
+      `${corrupt.length > 3 ? ', ...' : ''}): the server may be serving another build`
+    );
+  }
   
   return files;
 }
 
-// Quick estimate of download size (approximate)
-export async function estimateDownloadSize(oleanPaths: string[]): Promise<number> {
-  // Average .olean file size is roughly 50KB based on typical stdlib
-  // This is a rough estimate for progress display
-  return oleanPaths.length * 50 * 1024;
+// Download size of library files: exact with a v2 manifest, otherwise estimated
+// from the average .olean size
+export async function estimateDownloadSize(toolchain: Toolchain, oleanPaths: string[]): Promise<number> {
+  const known = await getLibraryFileInfo(toolchain).catch(() => new Map<string, LibraryFileInfo>());
+  return oleanPaths.reduce((sum, path) => sum + (known.get(path)?.size ?? AVERAGE_OLEAN_SIZE), 0);
 }
 
 // Fetch complete file list from server
 // This bypasses manifest-based dependency resolution
-let fileListCache: string[] | null = null;
-
-export async function fetchCompleteFileList(): Promise<string[]> {
-  if (fileListCache) return fileListCache;
+export async function fetchCompleteFileList(toolchain: Toolchain): Promise<string[]> {
+  const cached = fileLists.get(toolchain.version);
+  if (cached) return cached;
   
   try {
-    const response = await fetch('/lean-wasm/lean-lib-files.json');
+    const response = await fetch(fileListUrl(toolchain), { cache: 'no-cache' });
     if (response.ok) {
-      fileListCache = await response.json();
-      return fileListCache!;
+      const fileList: string[] = await response.json();
+      fileLists.set(toolchain.version, fileList);
+      return fileList;
     }
   } catch (e) {
     console.warn('lean-lib-files.json not available:', e);
@@ -277,9 +458,10 @@ export async function fetchCompleteFileList(): Promise<string[]> {
 
 // Fetch ALL .olean files from the library (bypasses manifest)
 export async function fetchAllOleanFiles(
+  toolchain: Toolchain,
   onProgress?: (loaded: number, total: number) => void
 ): Promise<Map<string, Uint8Array>> {
-  const fileList = await fetchCompleteFileList();
+  const fileList = await fetchCompleteFileList(toolchain);
   
   if (fileList.length === 0) {
     console.error('No file list available! Generate lean-lib-files.json');
@@ -287,5 +469,41 @@ export async function fetchAllOleanFiles(
   }
   
   console.log(`Fetching ALL ${fileList.length} library files...`);
-  return fetchOleanFiles(fileList, onProgress);
+  return fetchOleanFiles(toolchain, fileList, onProgress);
+}
+
+export interface LibraryPlan {
+  mode: 'manifest' | 'full';
+  paths: string[];
+  reason?: string;  // Why the full library was used instead of the manifest
+}
+
+// Decide which library files a run needs: the import closure from the manifest
+// when every module resolves, otherwise the complete file list
+export async function planLibraryFiles(
+  toolchain: Toolchain,
+  code: string,
+  localModules: ReadonlySet<string> = new Set()
+): Promise<LibraryPlan> {
+  let reason: string;
+  try {
+    const deps = await analyzeCodeDependencies(toolchain, code, localModules);
+    if (deps.unresolvedModules.length === 0) {
+      // A v2 manifest only lists files that exist
+      if (hasFileInfo(await loadManifest(toolchain))) return { mode: 'manifest', paths: deps.oleanPaths };
+      // Only request files that were actually built (skips missing .server/.private variants)
+      const fileList = await fetchCompleteFileList(toolchain);
+      const available = new Set(fileList);
+      const paths = fileList.length > 0
+        ? deps.oleanPaths.filter(p => available.has(p))
+        : deps.oleanPaths;
+      return { mode: 'manifest', paths };
+    }
+    reason = `unresolved modules: ${deps.unresolvedModules.map(u => u.module).join(', ')}`;
+  } catch (e) {
+    console.warn('Manifest unavailable, falling back to full library:', e);
+    reason = 'lean-manifest.json not available';
+  }
+  
+  return { mode: 'full', paths: await fetchCompleteFileList(toolchain), reason };
 }
@@ -0,0 +1,85 @@
+// Corpus for the editor's Lean scanner, brackets, indentation and abbreviations; run
+// with `npm test`
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { expandAbbreviation, matchBracket, nextLineIndent, tokenize } from './lean-syntax.ts';
+
+// Each token as [kind, text]
+const tokens = text => tokenize(text).map(t => [t.kind, text.slice(t.start, t.end)]);
+
+// Expand at the end of `text` and apply the replacement; null if nothing is replaced
+function expand(text, force = false) {
+  const r = expandAbbreviation(text, text.length, force);
+  if (!r) return null;
+  const result = text.slice(0, r.start) + r.text + text.slice(r.end);
+  return { result, cursor: r.start + r.cursor };
+}
+
+test('keywords, tactics, commands, attributes and sorry', () => {
+  assert.deepEqual(tokens('@[simp] theorem t : 1 = 1 := by rfl\n#check t.intro\nexample := sorry'), [
+    ['attribute', '@[simp]'],
+    ['keyword', 'theorem'],
+    ['number', '1'],
+    ['number', '1'],
+    ['keyword', 'by'],
+    ['tactic', 'rfl'],
+    ['command', '#check'],
+    ['keyword', 'example'],
+    ['sorry', 'sorry'],
+  ]);
+});
+
+test('nested comments, strings and character literals', () => {
+  assert.deepEqual(tokens('/- a /- b -/ c -/ "s \\" t" \'x\' h\' -- end'), [
+    ['comment', '/- a /- b -/ c -/'],
+    ['string', '"s \\" t"'],
+    ['string', "'x'"],
+    ['comment', '-- end'],
+  ]);
+});
+
+test('brackets match across nesting, skipping comments and strings', () => {
+  const text = '(a ⟨b, "(" /- ) -/⟩ c)';
+  const tks = tokenize(text);
+  assert.deepEqual(matchBracket(text, tks, 0), [0, text.length - 1]);
+  assert.deepEqual(matchBracket(text, tks, text.length), [text.length - 1, 0]);
+  assert.deepEqual(matchBracket(text, tks, text.indexOf('⟨')), [text.indexOf('⟨'), text.indexOf('⟩')]);
+  assert.equal(matchBracket(text, tks, text.indexOf('"') + 1), null);
+  assert.equal(matchBracket('(a', tokenize('(a'), 0), null);
+});
+
+test('indentation goes one level deeper after a line that opens a block', () => {
+  assert.equal(nextLineIndent('  theorem t : True := by'), '    ');
+  assert.equal(nextLineIndent('def f : Nat :=  -- comment'), '  ');
+  assert.equal(nextLineIndent('  | 0 =>'), '    ');
+  assert.equal(nextLineIndent('    exact h'), '    ');
+  assert.equal(nextLineIndent('\tdo', '\t'), '\t\t');
+});
+
+test('an abbreviation is replaced when the next character ends it', () => {
+  assert.deepEqual(expand('x \\to '), { result: 'x → ', cursor: 3 });
+  assert.deepEqual(expand('(\\a)'), { result: '(α)', cursor: 2 });
+});
+
+test('an abbreviation nothing else starts with is replaced right away', () => {
+  assert.deepEqual(expand('\\forall'), { result: '∀', cursor: 1 });
+  assert.deepEqual(expand('\\N'), { result: 'ℕ', cursor: 1 });
+});
+
+test('a complete abbreviation that others continue waits, unless forced', () => {
+  assert.equal(expand('\\to'), null);
+  assert.deepEqual(expand('\\to', true), { result: '→', cursor: 1 });
+});
+
+test('$CURSOR places the cursor inside the replacement', () => {
+  assert.deepEqual(expand('\\<>'), { result: '⟨⟩', cursor: 1 });
+});
+
+test('text that is no abbreviation is left alone', () => {
+  assert.equal(expand('\\alx'), null);
+  assert.equal(expand('\\al', true), null);
+  assert.equal(expand('no backslash'), null);
+  assert.equal(expand('\\to\nx '), null);
+  assert.equal(expand('\\t o '), null);
+});
@@ -0,0 +1,226 @@
+/**
+ * Lean 4 syntax for the editor: highlighting tokens, bracket matching, indentation,
+ * backslash abbreviations and module names after `import`
+ *
+ * The tokenizer is a scanner, not a parser: it knows comments (nested `/- -/`),
+ * strings, characters, numbers, identifiers and a fixed set of keywords and tactics.
+ */
+
+import abbreviationTable from './lean-abbreviations.json'
+import { parseHeader } from './lean-header'
+
+export type TokenKind =
+  | 'comment'
+  | 'string'
+  | 'number'
+  | 'keyword'       // Commands and term-level keywords
+  | 'tactic'
+  | 'command'       // `#eval`, `#check`, ...
+  | 'attribute'     // `@[simp]`
+  | 'sorry'
+
+export interface Token {
+  kind: TokenKind
+  start: number
+  end: number
+}
+
+const KEYWORDS = new Set([
+  'abbrev', 'attribute', 'axiom', 'by', 'calc', 'class', 'deriving', 'def', 'do', 'else', 'end',
+  'example', 'export', 'extends', 'for', 'from', 'fun', 'have', 'if', 'import', 'in', 'inductive',
+  'infix', 'infixl', 'infixr', 'instance', 'lemma', 'let', 'macro', 'macro_rules', 'match', 'meta',
+  'module', 'mut', 'mutual', 'namespace', 'noncomputable', 'nonrec', 'notation', 'opaque', 'open',
+  'partial', 'postfix', 'prefix', 'prelude', 'private', 'protected', 'public', 'return', 'section',
+  'set_option', 'show', 'structure', 'suffices', 'syntax', 'termination_by', 'decreasing_by',
+  'then', 'theorem', 'universe', 'unsafe', 'variable', 'where', 'with', 'at', 'local', 'scoped',
+])
+
+const TACTICS = new Set([
+  'apply', 'assumption', 'cases', 'change', 'constructor', 'contradiction', 'decide', 'exact',
+  'exfalso', 'exists', 'ext', 'first', 'funext', 'generalize', 'induction', 'injection', 'intro',
+  'intros', 'left', 'linarith', 'nofun', 'nomatch', 'norm_num', 'obtain', 'omega', 'refine', 'rename_i',
+  'repeat', 'rfl', 'right', 'ring', 'rintro', 'rw', 'rwa', 'show_term', 'simp', 'simp_all', 'simpa',
+  'skip', 'specialize', 'split', 'subst', 'symm', 'trivial', 'try', 'unfold', 'use', 'exact?',
+  'apply?', 'rw?', 'simp?', 'aesop', 'grind', 'positivity', 'gcongr', 'congr', 'conv', 'calc',
+  'all_goals', 'any_goals', 'case', 'next', 'focus', 'done', 'admit', 'infer_instance', 'native_decide',
+])
+
+const isIdentStart = (ch: string) => /[\p{L}_«]/u.test(ch) && !'λΠΣ'.includes(ch)
+const isIdentRest = (ch: string) => /[\p{L}\p{N}_'!?.₀-₉ₐ-ₜᵢ-ᵪⱼ]/u.test(ch) && !'λΠΣ'.includes(ch)
+
+// Scan `text` into highlighted tokens; everything between tokens is plain text
+export function tokenize(text: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+  while (i < text.length) {
+    const ch = text[i]
+    const next = text[i + 1]
+    const start = i
+
+    if (ch === '-' && next === '-') {
+      while (i < text.length && text[i] !== '\n') i++
+      tokens.push({ kind: 'comment', start, end: i })
+    } else if (ch === '/' && next === '-') {
+      // Block comments nest
+      let depth = 0
+      while (i < text.length) {
+        if (text[i] === '/' && text[i + 1] === '-') { depth++; i += 2 }
+        else if (text[i] === '-' && text[i + 1] === '/') { depth--; i += 2; if (depth === 0) break }
+        else i++
+      }
+      tokens.push({ kind: 'comment', start, end: i })
+    } else if (ch === '"') {
+      i++
+      while (i < text.length && text[i] !== '"') i += text[i] === '\\' ? 2 : 1
+      i = Math.min(i + 1, text.length)
+      tokens.push({ kind: 'string', start, end: i })
+    } else if (ch === "'" && (next === '\\' ? text.indexOf("'", i + 3) > 0 : text[i + 2] === "'") && next !== '\n') {
+      // Character literal; an apostrophe elsewhere belongs to an identifier like `h'`
+      i = next === '\\' ? text.indexOf("'", i + 3) + 1 : i + 3
+      tokens.push({ kind: 'string', start, end: i })
+    } else if (/[0-9]/.test(ch)) {
+      i++
+      while (i < text.length && /[0-9a-fA-FxXbBoO_.]/.test(text[i])) {
+        if (text[i] === '.' && !/[0-9]/.test(text[i + 1] ?? '')) break
+        i++
+      }
+      tokens.push({ kind: 'number', start, end: i })
+    } else if (ch === '#' && /[a-z]/.test(next ?? '')) {
+      i++
+      while (i < text.length && /[a-zA-Z_]/.test(text[i])) i++
+      tokens.push({ kind: 'command', start, end: i })
+    } else if (ch === '@' && next === '[') {
+      let depth = 0
+      while (i < text.length && text[i] !== '\n') {
+        if (text[i] === '[') depth++
+        else if (text[i] === ']' && --depth === 0) { i++; break }
+        i++
+      }
+      tokens.push({ kind: 'attribute', start, end: i })
+    } else if (isIdentStart(ch)) {
+      while (i < text.length && (isIdentRest(text[i]) || text[i] === '«' || text[i] === '»')) {
+        if (text[i] === '«') {
+          const close = text.indexOf('»', i)
+          i = close < 0 ? text.length : close + 1
+        } else {
+          i++
+        }
+      }
+      // An identifier right after `.` is a field, not a keyword (`x.intro`)
+      const word = text.slice(start, i)
+      const afterDot = text[start - 1] === '.'
+      if (word === 'sorry' || word === 'admit') tokens.push({ kind: 'sorry', start, end: i })
+      else if (!afterDot && KEYWORDS.has(word)) tokens.push({ kind: 'keyword', start, end: i })
+      else if (!afterDot && TACTICS.has(word)) tokens.push({ kind: 'tactic', start, end: i })
+    } else {
+      i++
+    }
+  }
+  return tokens
+}
+
+const BRACKETS: Record<string, string> = { '(': ')', '[': ']', '{': '}', '⟨': '⟩', '⦃': '⦄', '⟦': '⟧', '‹': '›' }
+const CLOSING = new Map(Object.entries(BRACKETS).map(([open, close]) => [close, open]))
+
+// Offsets of the bracket at or just before `offset` and its partner; brackets in
+// comments and strings don't count
+export function matchBracket(text: string, tokens: Token[], offset: number): [number, number] | null {
+  const literal = new Uint8Array(text.length)
+  for (const t of tokens) {
+    if (t.kind === 'comment' || t.kind === 'string') literal.fill(1, t.start, t.end)
+  }
+  const inLiteral = (pos: number) => literal[pos] === 1
+  const isBracket = (pos: number) => (text[pos] in BRACKETS || CLOSING.has(text[pos])) && !inLiteral(pos)
+  const at = isBracket(offset) ? offset : offset > 0 && isBracket(offset - 1) ? offset - 1 : -1
+  if (at < 0) return null
+
+  const ch = text[at]
+  const forward = ch in BRACKETS
+  const open = forward ? ch : CLOSING.get(ch)!
+  const close = BRACKETS[open]
+  let depth = 0
+  for (let pos = at; pos >= 0 && pos < text.length; pos += forward ? 1 : -1) {
+    if (inLiteral(pos)) continue
+    if (text[pos] === (forward ? open : close)) depth++
+    else if (text[pos] === (forward ? close : open) && --depth === 0) return [at, pos]
+  }
+  return null
+}
+
+// Indentation for the line after `line`: the same, one step deeper after a line
+// that opens a block
+export function nextLineIndent(line: string, step = '  '): string {
+  const indent = /^[ \t]*/.exec(line)![0]
+  const code = line.replace(/--.*$/, '').trimEnd()
+  const opensBlock = /(:=|\bby|\bwhere|\bdo|\bthen|\belse|=>|\bfrom|\bwith|[([{⟨])$/.test(code)
+  return opensBlock ? indent + step : indent
+}
+
+// Backslash abbreviations (`\to` → `→`), as in the Lean editor extensions.
+// `$CURSOR` in a replacement marks where the cursor goes.
+export const ABBREVIATIONS: Record<string, string> = abbreviationTable
+
+const ABBREVIATION_KEYS = Object.keys(ABBREVIATIONS)
+
+export interface AbbreviationReplacement {
+  start: number              // Offset of the backslash
+  end: number                // End of the abbreviation text that is replaced
+  text: string
+  cursor: number             // Cursor offset within `text`
+}
+
+function replacement(start: number, end: number, abbreviation: string): AbbreviationReplacement {
+  const value = ABBREVIATIONS[abbreviation]
+  const cursor = value.indexOf('$CURSOR')
+  const text = value.replace('$CURSOR', '')
+  return { start, end, text, cursor: cursor < 0 ? text.length : cursor }
+}
+
+// After typing at `offset`: replace an abbreviation that just ended. It ends when the
+// typed character can't continue it (the character stays), or when it is complete and
+// no longer abbreviation starts with it. `force` replaces a complete one right away (Tab).
+export function expandAbbreviation(text: string, offset: number, force = false): AbbreviationReplacement | null {
+  const lineStart = text.lastIndexOf('\n', offset - 1) + 1
+  const backslash = text.lastIndexOf('\\', offset - 1)
+  if (backslash < lineStart) return null
+  const typed = text.slice(backslash + 1, offset)
+  if (typed.length === 0 || /\s/.test(typed.slice(0, -1)) || typed.includes('\\')) return null
+
+  const isPrefix = (s: string) => ABBREVIATION_KEYS.some(key => key.startsWith(s))
+  if (force || !isPrefix(typed)) {
+    // The last character ended the abbreviation, unless Tab forces the whole text
+    const candidate = force ? typed : typed.slice(0, -1)
+    if (candidate in ABBREVIATIONS) {
+      return replacement(backslash, backslash + 1 + candidate.length, candidate)
+    }
+    return null
+  }
+  if (typed in ABBREVIATIONS && ABBREVIATION_KEYS.every(key => key === typed || !key.startsWith(typed))) {
+    return replacement(backslash, offset, typed)
+  }
+  return null
+}
+
+// The module name being typed after `import` at `offset` in the file header: where it
+// starts and what was typed so far, or null elsewhere
+export function importNameAt(text: string, offset: number): { start: number; typed: string } | null {
+  const lineStart = text.lastIndexOf('\n', offset - 1) + 1
+  const match = /^\s*(?:public\s+)?(?:meta\s+)?import\s+(?:all\s+)?([\p{L}\p{N}_'!?.«»]*)$/u.exec(text.slice(lineStart, offset))
+  if (!match) return null
+  // Everything before the line must still be header
+  if (parseHeader(text.slice(0, lineStart)).bodyStart !== lineStart) return null
+  return { start: offset - match[1].length, typed: match[1] }
+}
+
+// Module names for `typed`: those starting with it first, then those containing it
+export function completeModuleName(typed: string, names: readonly string[], limit = 50): string[] {
+  const query = typed.toLowerCase()
+  const starting: string[] = []
+  const containing: string[] = []
+  for (const name of names) {
+    const lower = name.toLowerCase()
+    if (lower.startsWith(query)) starting.push(name)
+    else if (query && lower.includes(query)) containing.push(name)
+  }
+  return [...starting.sort(), ...containing.sort()].slice(0, limit)
+}
@@ -0,0 +1,45 @@
+// Corpus for the run output diff; run with `npm test`
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { diffLines } from './line-diff.ts';
+
+// The diff as compact strings: ' x' same, '-x' removed, '+x' added
+const diff = (before, after, maxLines) =>
+  diffLines(before.split(''), after.split(''), maxLines).map(({ kind, text }) => ({ same: ' ', removed: '-', added: '+' })[kind] + text);
+
+// Applying the diff's sides gives back both inputs
+function assertSides(before, after, maxLines) {
+  const lines = diffLines(before, after, maxLines);
+  assert.deepEqual(lines.filter(l => l.kind !== 'added').map(l => l.text), before);
+  assert.deepEqual(lines.filter(l => l.kind !== 'removed').map(l => l.text), after);
+}
+
+test('equal and empty inputs', () => {
+  assert.deepEqual(diff('abc', 'abc'), [' a', ' b', ' c']);
+  assert.deepEqual(diff('', ''), []);
+  assert.deepEqual(diff('', 'ab'), ['+a', '+b']);
+  assert.deepEqual(diff('ab', ''), ['-a', '-b']);
+});
+
+test('changes between a common prefix and suffix', () => {
+  assert.deepEqual(diff('axc', 'ayc'), [' a', '-x', '+y', ' c']);
+  assert.deepEqual(diff('abc', 'abXc'), [' a', ' b', '+X', ' c']);
+});
+
+test('the longest common subsequence is kept', () => {
+  assert.deepEqual(diff('xabcy', 'zaqbcw'), ['-x', '+z', ' a', '+q', ' b', ' c', '-y', '+w']);
+  const lines = diffLines('abcabba'.split(''), 'cbabac'.split(''));
+  assert.equal(lines.filter(l => l.kind === 'same').length, 4);
+});
+
+test('both sides are preserved', () => {
+  assertSides(['error: x', 'a', 'b', 'c', 'warning'], ['a', 'c', 'd', 'warning', 'info']);
+  assertSides(['same', 'same', 'x'], ['x', 'same', 'same']);
+});
+
+test('a middle longer than maxLines is compared as one block', () => {
+  assert.deepEqual(diff('pabcq', 'pbcdq', 2), [' p', '-a', '-b', '-c', '+b', '+c', '+d', ' q']);
+  assert.deepEqual(diff('pabcq', 'pbcdq'), [' p', '-a', ' b', ' c', '+d', ' q']);
+  assertSides(['p', 'a', 'b', 'c', 'q'], ['p', 'b', 'c', 'd', 'q'], 2);
+});
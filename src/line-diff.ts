@@ -0,0 +1,60 @@
+/**
+ * Line diff for comparing the output of two runs
+ */
+
+export interface DiffLine {
+  kind: 'same' | 'removed' | 'added'   // removed: only in `before`, added: only in `after`
+  text: string
+}
+
+// Longest-common-subsequence diff. Lines past `maxLines` on either side are compared
+// as a block so the table stays small.
+export function diffLines(before: string[], after: string[], maxLines = 2000): DiffLine[] {
+  // Common prefix and suffix need no table
+  let start = 0
+  while (start < before.length && start < after.length && before[start] === after[start]) start++
+  let endBefore = before.length
+  let endAfter = after.length
+  while (endBefore > start && endAfter > start && before[endBefore - 1] === after[endAfter - 1]) {
+    endBefore--
+    endAfter--
+  }
+
+  const a = before.slice(start, endBefore)
+  const b = after.slice(start, endAfter)
+  const middle: DiffLine[] = []
+  if (a.length > maxLines || b.length > maxLines) {
+    middle.push(...a.map(text => ({ kind: 'removed' as const, text })))
+    middle.push(...b.map(text => ({ kind: 'added' as const, text })))
+  } else {
+    // lengths[i][j]: LCS length of a[i..] and b[j..]
+    const width = b.length + 1
+    const lengths = new Uint32Array((a.length + 1) * width)
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lengths[i * width + j] = a[i] === b[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1])
+      }
+    }
+    let i = 0
+    let j = 0
+    while (i < a.length || j < b.length) {
+      if (i < a.length && j < b.length && a[i] === b[j]) {
+        middle.push({ kind: 'same', text: a[i] })
+        i++
+        j++
+      } else if (i < a.length && (j === b.length || lengths[(i + 1) * width + j] >= lengths[i * width + j + 1])) {
+        middle.push({ kind: 'removed', text: a[i++] })
+      } else {
+        middle.push({ kind: 'added', text: b[j++] })
+      }
+    }
+  }
+
+  return [
+    ...before.slice(0, start).map(text => ({ kind: 'same' as const, text })),
+    ...middle,
+    ...before.slice(endBefore).map(text => ({ kind: 'same' as const, text })),
+  ]
+}
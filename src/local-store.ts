@@ -0,0 +1,92 @@
+/**
+ * Workspace buffers and run history kept in localStorage
+ *
+ * Storage may be unavailable (private windows, disabled storage) or full; reads then
+ * return nothing and writes drop the oldest history entries or give up quietly.
+ */
+
+import type { LeanDiagnostic } from './diagnostics'
+import type { RunOutcome } from './runner/runner'
+import type { WorkspaceFile } from './workspace'
+
+const WORKSPACE_KEY = 'lean-playground:workspace'
+const HISTORY_KEY = 'lean-playground:history'
+
+// Runs kept in the history, newest first
+export const MAX_HISTORY = 50
+
+// Output kept per run; Lean's --json output of a big file can run into megabytes
+const MAX_OUTPUT_CHARS = 100_000
+
+export interface SavedWorkspace {
+  files: WorkspaceFile[]
+  activeFile: string
+}
+
+// One Run Code as it is kept in the history
+export interface RunRecord {
+  id: string
+  time: string                // ISO timestamp of the start of the run
+  files: WorkspaceFile[]
+  activeFile: string
+  flags: string
+  outcome: RunOutcome
+  exitCode: number | null
+  durationMs: number
+  diagnostics: LeanDiagnostic[]
+  output: string              // Lean's stdout, cut at MAX_OUTPUT_CHARS
+  truncated?: boolean
+}
+
+function read<T>(key: string): T | null {
+  try {
+    const text = localStorage.getItem(key)
+    return text === null ? null : JSON.parse(text) as T
+  } catch (err) {
+    console.warn(`Ignoring saved ${key}:`, err)
+    return null
+  }
+}
+
+function write(key: string, value: unknown): boolean {
+  try {
+    localStorage.setItem(key, JSON.stringify(value))
+    return true
+  } catch (err) {
+    console.warn(`Could not save ${key}:`, err)
+    return false
+  }
+}
+
+export function loadWorkspace(): SavedWorkspace | null {
+  const saved = read<SavedWorkspace>(WORKSPACE_KEY)
+  return saved && Array.isArray(saved.files) && saved.files.length > 0 ? saved : null
+}
+
+export function saveWorkspace(workspace: SavedWorkspace): void {
+  write(WORKSPACE_KEY, workspace)
+}
+
+export function loadHistory(): RunRecord[] {
+  const saved = read<RunRecord[]>(HISTORY_KEY)
+  return Array.isArray(saved) ? saved : []
+}
+
+// Save `history`, dropping the oldest runs until it fits. Returns what was saved.
+export function saveHistory(history: RunRecord[]): RunRecord[] {
+  let kept = history.slice(0, MAX_HISTORY)
+  while (!write(HISTORY_KEY, kept) && kept.length > 0) {
+    kept = kept.slice(0, -1)
+  }
+  return kept
+}
+
+export function createRunRecord(run: Omit<RunRecord, 'id' | 'output' | 'truncated'>, output: string): RunRecord {
+  const truncated = output.length > MAX_OUTPUT_CHARS
+  return {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    ...run,
+    output: truncated ? output.slice(0, MAX_OUTPUT_CHARS) : output,
+    ...(truncated && { truncated }),
+  }
+}
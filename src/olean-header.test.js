@@ -0,0 +1,82 @@
+// Corpus for .olean header fields; run with `npm test`
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { describeBuild, libraryBuildMismatch, parseLeanVersion, readOleanHeader } from './olean-header.ts';
+
+const GITHASH = '0123456789abcdef0123456789abcdef01234567';
+const OTHER_GITHASH = 'fedcba9876543210fedcba9876543210fedcba98';
+
+// An .olean header with `fields` written at their offsets, padded to 88 bytes (the
+// mmap base address follows the fields)
+function olean(formatVersion, fields) {
+  const data = new Uint8Array(88);
+  data.set([...'olean'].map(ch => ch.charCodeAt(0)));
+  data[5] = formatVersion;
+  for (const [offset, text] of fields) {
+    data.set([...text].map(ch => ch.charCodeAt(0)), offset);
+  }
+  return data;
+}
+
+const format1 = githash => olean(1, [[6, githash]]);
+const format2 = (version, githash) => olean(2, [[7, version], [40, githash]]);
+
+test('reads the githash of format 1', () => {
+  assert.deepEqual(readOleanHeader(format1(GITHASH)), { formatVersion: 1, version: '', githash: GITHASH });
+});
+
+test('reads the version and githash of format 2', () => {
+  assert.deepEqual(readOleanHeader(format2('4.28.0-pre', GITHASH)), { formatVersion: 2, version: '4.28.0-pre', githash: GITHASH });
+});
+
+test('a version filling its field does not run into the githash', () => {
+  const version = '4.28.0-nightly-2026-01-01-abcdefg';
+  assert.equal(version.length, 33);
+  const header = readOleanHeader(format2(version, GITHASH));
+  assert.equal(header.version, version);
+  assert.equal(header.githash, GITHASH);
+});
+
+test('rejects data that is not an .olean', () => {
+  assert.equal(readOleanHeader(new TextEncoder().encode('not an olean file at all')), null);
+  assert.equal(readOleanHeader(olean(1, []).subarray(0, 10)), null);
+  assert.equal(readOleanHeader(format1('bad\u0001field')), null);
+});
+
+test('unknown formats have blank fields', () => {
+  assert.deepEqual(readOleanHeader(olean(9, [[6, GITHASH]])), { formatVersion: 9, version: '', githash: '' });
+});
+
+test('parses the build from lean --version', () => {
+  assert.deepEqual(
+    parseLeanVersion(`Lean (version 4.28.0-pre, x86_64-unknown-linux-gnu, commit ${GITHASH}, Release)`),
+    { version: '4.28.0-pre', githash: GITHASH }
+  );
+  assert.deepEqual(parseLeanVersion('Lean (version 4.27.0, Release)'), { version: '4.27.0', githash: null });
+  assert.equal(parseLeanVersion('command not found'), null);
+});
+
+test('compares commits when both are known', () => {
+  const files = [['Init/Prelude.olean', format2('4.28.0-pre', GITHASH)]];
+  assert.equal(libraryBuildMismatch(files, { version: '4.27.0', githash: GITHASH }, 'lean.wasm'), null);
+  const problem = libraryBuildMismatch(files, { version: '4.28.0-pre', githash: OTHER_GITHASH }, 'lean.wasm');
+  assert.match(problem, /Init\/Prelude\.olean is from Lean 4\.28\.0-pre, commit 0123456789ab/);
+  assert.match(problem, /\(lean\.wasm\)/);
+});
+
+test('a githash field without a commit is compared as the version', () => {
+  const files = [['A.olean', format1('4.28.0-pre')], ['B.olean', format1('4.27.0')], ['C.olean', format1('4.27.0')]];
+  const problem = libraryBuildMismatch(files, { version: '4.28.0-pre', githash: null }, 'the manifest');
+  assert.match(problem, /B\.olean \(and 1 more files\) is from Lean 4\.27\.0,/);
+});
+
+test('headers that cannot be compared are not a mismatch', () => {
+  const files = [['A.olean', format1(GITHASH)], ['B.olean', new Uint8Array(4)]];
+  assert.equal(libraryBuildMismatch(files, { version: '4.28.0-pre', githash: null }, 'the manifest'), null);
+});
+
+test('describes a build', () => {
+  assert.equal(describeBuild({ version: '4.28.0-pre', githash: GITHASH }), '4.28.0-pre, commit 0123456789ab');
+  assert.equal(describeBuild({ version: null, githash: null }), 'unknown');
+});
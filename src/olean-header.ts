@@ -0,0 +1,106 @@
+/**
+ * .olean file headers and the Lean build that wrote them
+ *
+ * An .olean starts with the marker `olean`, a format version byte and fixed-width,
+ * NUL-padded fields naming the Lean that wrote it, followed by the mmap base address:
+ *
+ *   format 1: githash[42]
+ *   format 2: flags byte, version[33] (e.g. 4.28.0-pre), githash[40]
+ *
+ * Builds without a git commit put their version string in the githash field. Lean only
+ * loads files written by its own build, and fails deep inside the import when they aren't.
+ */
+
+const MARKER = 'olean'
+
+// Offset and width of each field, by format version
+const FIELDS: Record<number, { version?: [number, number]; githash: [number, number] }> = {
+  1: { githash: [6, 42] },
+  2: { version: [7, 33], githash: [40, 40] },
+}
+
+export interface OleanHeader {
+  formatVersion: number
+  version: string            // Lean version; empty if the format has no such field or it is blank
+  githash: string            // Git commit (or version string, see above); empty if blank
+}
+
+// The Lean build a runtime or library belongs to, as far as known
+export interface LeanBuild {
+  version: string | null     // e.g. 4.28.0-pre
+  githash: string | null     // Full commit hash
+}
+
+// Text of a NUL-padded field; null if it runs past `data` or holds anything but
+// printable ASCII
+function readField(data: Uint8Array, [start, width]: [number, number]): string | null {
+  if (data.length < start + width) return null
+  let text = ''
+  for (let pos = start; pos < start + width && data[pos] !== 0; pos++) {
+    if (data[pos] < 0x20 || data[pos] >= 0x7f) return null
+    text += String.fromCharCode(data[pos])
+  }
+  return text
+}
+
+// The header of an .olean file, or null if `data` isn't one. Formats this code doesn't
+// know come back with blank fields.
+export function readOleanHeader(data: Uint8Array): OleanHeader | null {
+  if (data.length < 16 || String.fromCharCode(...data.subarray(0, MARKER.length)) !== MARKER) return null
+  const formatVersion = data[MARKER.length]
+  const fields = FIELDS[formatVersion]
+  if (!fields) return { formatVersion, version: '', githash: '' }
+  const version = fields.version ? readField(data, fields.version) : ''
+  const githash = readField(data, fields.githash)
+  if (version === null || githash === null) return null
+  return { formatVersion, version, githash }
+}
+
+// The build in `lean --version` output ("Lean (version 4.28.0-pre, ..., commit 1a2b..., Release)")
+export function parseLeanVersion(output: string): LeanBuild | null {
+  const version = /\bversion ([^\s,)]+)/.exec(output)?.[1] ?? null
+  const githash = /\bcommit ([0-9a-f]{40})\b/.exec(output)?.[1] ?? null
+  return version || githash ? { version, githash } : null
+}
+
+const isGithash = (text: string) => /^[0-9a-f]{40}$/.test(text)
+
+// The build a header names
+function headerBuild(header: OleanHeader): LeanBuild {
+  const githash = isGithash(header.githash) ? header.githash : null
+  // A githash field without a commit holds the version
+  const version = header.version || (!githash && header.githash) || null
+  return { version, githash }
+}
+
+// Whether a file's build is `expected`: the commits when both are known, else the
+// versions; null if neither can be compared
+function matchesBuild(build: LeanBuild, expected: LeanBuild): boolean | null {
+  if (build.githash && expected.githash) return build.githash === expected.githash
+  if (build.version && expected.version) return build.version === expected.version
+  return null
+}
+
+export function describeBuild(build: LeanBuild): string {
+  return [build.version, build.githash && `commit ${build.githash.slice(0, 12)}`].filter(Boolean).join(', ') || 'unknown'
+}
+
+// Why `files` can't be used with `expected` (`source` says where that comes from), or
+// null if every header that can be compared matches
+export function libraryBuildMismatch(
+  files: Iterable<[string, Uint8Array]>,
+  expected: LeanBuild,
+  source: string
+): string | null {
+  const mismatched: { path: string; build: LeanBuild }[] = []
+  for (const [path, data] of files) {
+    const header = readOleanHeader(data)
+    const build = header && headerBuild(header)
+    if (build && matchesBuild(build, expected) === false) mismatched.push({ path, build })
+  }
+  if (mismatched.length === 0) return null
+  const [first] = mismatched
+  const more = mismatched.length > 1 ? ` (and ${mismatched.length - 1} more files)` : ''
+  return `The library was built by another Lean: ${first.path}${more} is from Lean ${describeBuild(first.build)}, ` +
+    `but Lean ${describeBuild(expected)} is expected (${source}). Serve the .olean files of the toolchain lean.wasm was built from.`
+}
@@ -0,0 +1,74 @@
+// Corpus for shared links; run with `npm test`
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { deflateSync, strToU8 } from 'fflate';
+import { MAX_PERMALINK_LENGTH, createPermalink, readPermalink } from './permalink.ts';
+
+const BASE = 'https://example.org/playground/';
+
+const link = {
+  files: [
+    { name: 'Main.lean', content: 'import Foo.Bar\n#eval "λ → ∀ 𝔽"' },
+    { name: 'Foo/Bar.lean', content: 'def x := 1' },
+  ],
+  activeFile: 'Foo/Bar.lean',
+  flags: '--json',
+  toolchain: '4.28.0-pre',
+  autorun: true,
+};
+
+// A fragment holding `data` as the link format does, for links createPermalink won't make
+function fragment(data) {
+  const packed = btoa(String.fromCharCode(...deflateSync(strToU8(JSON.stringify(data)))))
+    .replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  return `#share=${packed}`;
+}
+
+const hashOf = url => url.slice(url.indexOf('#'));
+
+test('a link round-trips through the URL fragment', () => {
+  const url = createPermalink(link, `${BASE}#old`);
+  assert.ok(url.startsWith(`${BASE}#share=`));
+  assert.match(hashOf(url), /^#share=[A-Za-z0-9_-]+$/);
+  assert.deepEqual(readPermalink(hashOf(url)), link);
+});
+
+test('missing optional fields get defaults', () => {
+  const read = readPermalink(fragment({ v: 1, files: [{ name: 'A.lean', content: '' }] }));
+  assert.deepEqual(read, { files: [{ name: 'A.lean', content: '' }], activeFile: 'A.lean', flags: '', toolchain: '', autorun: false });
+});
+
+test('an active file that is not one of the files falls back to the first', () => {
+  for (const activeFile of ['Missing.lean', '../../etc/passwd', 42, undefined]) {
+    const read = readPermalink(fragment({ v: 1, files: link.files, activeFile }));
+    assert.equal(read.activeFile, 'Main.lean');
+  }
+});
+
+test('fragments without a link are not links', () => {
+  for (const hash of ['', '#', '#section-2', '#share=', '#other=abc']) {
+    assert.equal(readPermalink(hash), null, hash);
+  }
+});
+
+test('damaged and unsupported links are errors', () => {
+  const hash = hashOf(createPermalink(link, BASE));
+  assert.throws(() => readPermalink(hash.slice(0, hash.length - 20)), /damaged/);
+  assert.throws(() => readPermalink(fragment({ v: 2, files: link.files })), /format 2 is not supported/);
+  assert.throws(() => readPermalink(fragment({ v: 1, files: [] })), /no code/);
+  assert.throws(() => readPermalink(fragment({ v: 1, files: [{ name: 'A.lean' }] })), /no code/);
+});
+
+test('file names are validated', () => {
+  assert.throws(() => readPermalink(fragment({ v: 1, files: [{ name: '../A.lean', content: '' }] })), /bad file name/);
+  const twice = [{ name: 'A.lean', content: '' }, { name: 'A.lean', content: '' }];
+  assert.throws(() => readPermalink(fragment({ v: 1, files: twice })), /A.lean already exists/);
+});
+
+test('links over the length limit are refused', () => {
+  // Random text compresses little: twice the limit in characters stays over it
+  let content = '';
+  while (content.length < 2 * MAX_PERMALINK_LENGTH) content += Math.random().toString(36).slice(2);
+  assert.throws(() => createPermalink({ ...link, files: [{ name: 'Main.lean', content }] }, BASE), /too large to share/);
+});
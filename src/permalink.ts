@@ -0,0 +1,78 @@
+/**
+ * Shareable links: the workspace, flags and toolchain, deflated with fflate into the URL
+ * fragment (`#share=...`). The fragment never reaches the server.
+ */
+
+import { deflateSync, inflateSync, strFromU8, strToU8 } from 'fflate'
+import { validateFileName } from './workspace'
+import type { WorkspaceFile } from './workspace'
+
+export interface Permalink {
+  files: WorkspaceFile[]
+  activeFile?: string
+  flags: string
+  toolchain: string
+  autorun?: boolean          // Run the code as soon as the link is opened
+}
+
+const FRAGMENT_KEY = 'share'
+const FORMAT_VERSION = 1
+
+// Longest link we hand out; longer URLs get cut off by chat tools, mail clients and proxies
+export const MAX_PERMALINK_LENGTH = 8000
+
+function toBase64Url(data: Uint8Array): string {
+  let binary = ''
+  for (let i = 0; i < data.length; i += 0x8000) {
+    binary += String.fromCharCode(...data.subarray(i, i + 0x8000))
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'))
+  return Uint8Array.from(binary, ch => ch.charCodeAt(0))
+}
+
+// URL of `baseUrl` with `link` in the fragment. Throws if the link would be too long.
+export function createPermalink(link: Permalink, baseUrl: string): string {
+  const json = JSON.stringify({ v: FORMAT_VERSION, ...link })
+  const packed = toBase64Url(deflateSync(strToU8(json), { level: 9 }))
+  const url = `${baseUrl.split('#')[0]}#${FRAGMENT_KEY}=${packed}`
+  if (url.length > MAX_PERMALINK_LENGTH) {
+    throw new Error(
+      `The code is too large to share as a link: it compresses to ${url.length} characters, ` +
+      `the limit is ${MAX_PERMALINK_LENGTH}. Share the files instead.`
+    )
+  }
+  return url
+}
+
+// The link in a URL fragment, or null if the fragment holds none. Throws if it is damaged.
+export function readPermalink(hash: string): Permalink | null {
+  const match = new RegExp(`^#?${FRAGMENT_KEY}=([A-Za-z0-9_-]+)$`).exec(hash)
+  if (!match) return null
+  let data: { v?: number } & Partial<Permalink>
+  try {
+    data = JSON.parse(strFromU8(inflateSync(fromBase64Url(match[1]))))
+  } catch {
+    throw new Error('This shared link is damaged (it may have been cut off when it was copied)')
+  }
+  if (data.v !== FORMAT_VERSION) throw new Error(`Shared link format ${data.v} is not supported`)
+  if (!Array.isArray(data.files) || data.files.length === 0 || !data.files.every(f => typeof f?.name === 'string' && typeof f.content === 'string')) {
+    throw new Error('This shared link has no code')
+  }
+  for (const [i, file] of data.files.entries()) {
+    const problem = validateFileName(file.name, data.files.slice(0, i))
+    if (problem) throw new Error(`This shared link has a bad file name: ${problem}`)
+  }
+  // The file to show must be one of the link's files
+  const activeFile = data.files.find(f => f.name === data.activeFile)?.name ?? data.files[0].name
+  return {
+    files: data.files,
+    activeFile,
+    flags: typeof data.flags === 'string' ? data.flags : '',
+    toolchain: typeof data.toolchain === 'string' ? data.toolchain : '',
+    autorun: data.autorun === true,
+  }
+}
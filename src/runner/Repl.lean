@@ -0,0 +1,72 @@
+/-
+Line-based JSON REPL for the playground's session mode, run with `lean --run Repl.lean`.
+
+Every input line is a command `{"cmd": "...", "env": n}`. Without `env` the command is
+elaborated as the start of a file, so its `import`s are loaded; with `env` it continues
+from environment snapshot `n` and imports are not processed again. Every reply is one line:
+`{"env": m, "messages": [...]}`, where `m` is the snapshot after the command, or
+`{"error": "..."}`. End of input ends the session.
+
+Only the frontend is imported (`IO.processCommands` and, through it, header processing,
+messages and JSON), not all of `Lean`. These modules are loaded once, when the session
+starts; a file that imports only `Init` doesn't load anything else after that.
+-/
+import Lean.Elab.Frontend
+
+open Lean Elab
+
+structure ReplCommand where
+  cmd : String
+  env : Option Nat := none
+  deriving FromJson
+
+structure ReplResponse where
+  env : Nat
+  messages : Array SerialMessage
+  deriving ToJson
+
+/-- Elaborate `input` as a new file, or on top of the command state of a snapshot. -/
+def elaborate (input : String) (snapshot? : Option Command.State) : IO Command.State := do
+  let inputCtx := Parser.mkInputContext input "<repl>"
+  match snapshot? with
+  | none =>
+    let (header, parserState, messages) ← Parser.parseHeader inputCtx
+    let (env, messages) ← processHeader header {} messages inputCtx
+    let state := Command.mkState env messages {}
+    return (← IO.processCommands inputCtx parserState state).commandState
+  | some snapshot =>
+    let state := { snapshot with messages := {} }
+    return (← IO.processCommands inputCtx {} state).commandState
+
+def handle (snapshots : IO.Ref (Array Command.State)) (line : String) : IO Json := do
+  let cmd ← IO.ofExcept (Json.parse line >>= fromJson? (α := ReplCommand))
+  let snapshot? ← match cmd.env with
+    | none => pure none
+    | some n =>
+      match (← snapshots.get)[n]? with
+      | some snapshot => pure (some snapshot)
+      | none => throw <| IO.userError s!"unknown environment {n}"
+  let state ← elaborate cmd.cmd snapshot?
+  let env := (← snapshots.get).size
+  snapshots.modify (·.push state)
+  let messages ← state.messages.toList.toArray.mapM fun msg => do return (← msg.serialize)
+  return toJson ({ env, messages } : ReplResponse)
+
+partial def loop (snapshots : IO.Ref (Array Command.State)) : IO Unit := do
+  let line ← (← IO.getStdin).getLine
+  -- getLine returns "" only at end of input
+  if line.isEmpty then return
+  unless line.trim.isEmpty do
+    let reply ← try handle snapshots line
+      catch e => pure <| Json.mkObj [("error", toJson e.toString)]
+    let stdout ← IO.getStdout
+    stdout.putStrLn reply.compress
+    stdout.flush
+  loop snapshots
+
+/-- `unsafe` only because `enableInitializersExecution` is: without it the `initialize`
+declarations of the modules a command imports don't run. -/
+unsafe def main : IO Unit := do
+  initSearchPath (← findSysroot)
+  enableInitializersExecution
+  loop (← IO.mkRef #[])
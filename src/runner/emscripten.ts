@@ -0,0 +1,76 @@
+/**
+ * The parts of the Emscripten runtime (lean.js, built with -sMODULARIZE -sEXPORT_ES6)
+ * the runner uses
+ */
+
+export interface EmscriptenFSNode {
+  contents: Uint8Array | null
+  usedBytes: number
+}
+
+// Open file description; stream_ops may be replaced per stream
+export interface EmscriptenStream {
+  stream_ops: {
+    write: (stream: EmscriptenStream, buffer: Uint8Array, offset: number, length: number, position?: number) => number
+  }
+}
+
+export interface EmscriptenFS {
+  writeFile: (path: string, data: string | Uint8Array, opts?: { canOwn?: boolean }) => void
+  readFile: (path: string, opts?: { encoding?: 'utf8' | 'binary' }) => string | Uint8Array
+  createFile: (parent: string, name: string, properties: null, canRead: boolean, canWrite: boolean) => EmscriptenFSNode
+  mkdir: (path: string) => void
+  readdir: (path: string) => string[]
+  stat: (path: string) => { size: number; mode: number }
+  isDir: (mode: number) => boolean
+  isFile: (mode: number) => boolean
+  cwd: () => string
+  chdir: (path: string) => void
+  getStream: (fd: number) => EmscriptenStream | null
+  // Thrown from filesystem code to fail the current syscall with an errno
+  ErrnoError: new (errno: number) => Error
+}
+
+// Module object passed to lean.js's factory (settings + callbacks)
+export interface EmscriptenModuleConfig {
+  locateFile?: (path: string) => string
+  mainScriptUrlOrBlob?: string
+  instantiateWasm?: (
+    imports: WebAssembly.Imports,
+    successCallback: (instance: WebAssembly.Instance, module: WebAssembly.Module) => void
+  ) => object
+  print?: (text: string) => void
+  printErr?: (text: string) => void
+  // Called per byte of stdin: a byte, undefined = no more data for this read, null = EOF
+  stdin?: () => number | null | undefined
+  setStatus?: (text: string) => void
+  noInitialRun?: boolean
+  preRun?: Array<() => void>
+  onExit?: (code: number) => void
+  onAbort?: (what: unknown) => void
+}
+
+// Module after lean.js has filled it in
+export interface LeanModule extends EmscriptenModuleConfig {
+  // Different ways Emscripten might expose main
+  callMain?: (args: string[]) => number
+  ccall: (name: string, returnType: string, argTypes: string[], args: unknown[]) => unknown
+
+  FS: EmscriptenFS
+  ENV: Record<string, string>
+
+  // Memory/utilities
+  allocateUTF8?: (str: string) => number
+  stringToNewUTF8?: (str: string) => number
+  _malloc: (size: number) => number
+  setValue: (ptr: number, value: number, type: string) => void
+}
+
+// Default export of lean.js; resolves once the runtime is initialized
+export type LeanModuleFactory = (config: EmscriptenModuleConfig) => Promise<LeanModule>
+
+// Thrown by exit() inside the runtime
+export function isExitStatus(e: unknown): e is { status: number } {
+  return typeof e === 'object' && e !== null &&
+    (e.constructor?.name === 'ExitStatus' || typeof (e as { status?: unknown }).status === 'number')
+}
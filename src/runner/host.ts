@@ -0,0 +1,582 @@
+/**
+ * Lean runner - hosts lean.js inside a dedicated Web Worker
+ *
+ * Each worker is one Lean process: the app sends `init` (load lean.js and wait until
+ * the runtime and its pthread pool are up, stopping at noInitialRun), optionally
+ * `load_library` (mounted into MEMFS right away), `configure`, then `start`, which
+ * calls main() and reports stdout/stderr/done. Because everything up to `start` can
+ * happen ahead of time, idle runners can wait in a pool. A worker keeps main() off
+ * the page's thread, so a long elaboration doesn't freeze the UI.
+ *
+ * Every reply and every event of a run carries the id of the request it belongs to
+ * (see protocol.ts).
+ */
+
+import type { LibraryBlob } from '../utils'
+import { PROTOCOL_VERSION, WORKSPACE_DIR, WORKSPACE_OLEAN_DIR } from './protocol'
+import type { LazyLibrary, RunnerConfig, RunnerMessage, RunnerOutputFile, RunnerRequest } from './protocol'
+import { isExitStatus } from './emscripten'
+import { createStdinReader } from './stdin'
+import type { EmscriptenFS, EmscriptenModuleConfig, LeanModule, LeanModuleFactory } from './emscripten'
+
+function post(message: RunnerMessage, transfer: Transferable[] = []) {
+  self.postMessage(message, { transfer })
+}
+
+// pthreads need SharedArrayBuffer, i.e. COOP/COEP headers on the page
+if (!crossOriginIsolated) {
+  post({ type: 'stderr', id: null, data: '⚠️ Warning: Not cross-origin isolated. pthreads may fail.\n' })
+}
+
+let pendingConfig: RunnerConfig | null = null
+let readStdin: (() => number | null | undefined) | null = null
+let rawStdout = false
+// Set once the runtime is initialized (after `init`)
+let leanModule: LeanModule | null = null
+let initStarted = false
+// Id of the `start` request; main() is one-shot, so there is at most one run per worker
+let runId: number | null = null
+let runFinished = false
+// Directory lean.js and lean.wasm are loaded from (set by `init`)
+let runtimeUrl = ''
+// Request that runtime output (print/printErr/setStatus) is attributed to
+let outputId: number | null = null
+let libraryMounted = false
+// The wasm linear memory, once lean.wasm is instantiated
+let wasmMemory: WebAssembly.Memory | null = null
+// Lazy library - files are created as placeholders and fetched the first time Lean reads them
+let lazyLibrary: LazyLibrary | null = null
+// `cached` counts the files mounted from the persistent cache instead
+const lazyStats = { files: 0, bytes: 0, cached: 0 }
+
+// errno for a lazy file that couldn't be fetched, so Lean reports an I/O error
+const EIO = 29
+
+function mkdirp(FS: EmscriptenFS, path: string) {
+  let current = ''
+  for (const part of path.split('/').filter(p => p)) {
+    current += '/' + part
+    try { FS.mkdir(current) } catch { /* exists */ }
+  }
+}
+
+// Library paths may carry the directory they were packed from
+function stripLibraryPrefix(name: string): string {
+  for (const prefix of ['library/', 'lean-lib/', 'lib/lean/', 'lean/']) {
+    if (name.startsWith(prefix)) return name.substring(prefix.length)
+  }
+  return name
+}
+
+// Synchronous GET used by lazy files (binary sync XHR is allowed in workers)
+function syncFetchBytes(url: string): Uint8Array {
+  const xhr = new XMLHttpRequest()
+  xhr.open('GET', url, false)
+  xhr.responseType = 'arraybuffer'
+  xhr.send(null)
+  if (xhr.status !== 200 && xhr.status !== 0) {
+    throw new Error(`HTTP ${xhr.status} for ${url}`)
+  }
+  return new Uint8Array(xhr.response as ArrayBuffer)
+}
+
+// Probe once whether synchronous fetching works here (it may be blocked by policy)
+function canFetchSynchronously(url: string): boolean {
+  if (typeof XMLHttpRequest === 'undefined') return false
+  try {
+    const xhr = new XMLHttpRequest()
+    xhr.open('HEAD', url, false)
+    xhr.send(null)
+    return xhr.status === 200
+  } catch {
+    return false
+  }
+}
+
+// Library files already in the persistent cache. Sync XHR can't read Cache Storage, so
+// these are read ahead of main() and mounted as plain files; the rest stay lazy.
+async function readCachedFiles(library: LazyLibrary): Promise<Map<string, Uint8Array>> {
+  const found = new Map<string, Uint8Array>()
+  if (!library.cacheName || typeof caches === 'undefined') return found
+  const cache = await caches.open(library.cacheName)
+  const cached = new Set((await cache.keys()).map(request => request.url))
+  await Promise.all(library.files.map(async name => {
+    const url = new URL(library.baseUrl + name, self.location.href).href
+    if (!cached.has(url)) return
+    const response = await cache.match(url)
+    if (!response) return
+    const data = new Uint8Array(await response.arrayBuffer())
+    // A copy that disagrees with the manifest is left to the lazy path, which reports it
+    const size = library.sizes?.[name]
+    if (size === undefined || data.length === size) found.set(name, data)
+  }))
+  return found
+}
+
+// Create a MEMFS file whose contents are fetched on first access. MEMFS reads
+// node.contents / node.usedBytes for read, stat and mmap, so both are getters
+// that load the file and then replace themselves with plain data properties.
+// A failed fetch, or a file whose size differs from knownSize, is an EIO for Lean.
+function createLazyFile(FS: EmscriptenFS, fullPath: string, url: string, knownSize?: number) {
+  const dir = fullPath.substring(0, fullPath.lastIndexOf('/'))
+  const name = fullPath.substring(fullPath.lastIndexOf('/') + 1)
+  mkdirp(FS, dir)
+  const node = FS.createFile(dir, name, null, true, false)
+  let failed = false
+
+  const define = (key: 'contents' | 'usedBytes', value: unknown) => {
+    Object.defineProperty(node, key, { value, writable: true, configurable: true, enumerable: true })
+  }
+  const settle = (data: Uint8Array | null) => {
+    define('contents', data)
+    define('usedBytes', data ? data.length : 0)
+  }
+  const fail = (reason: string): never => {
+    if (!failed) post({ type: 'stderr', id: outputId, data: `Failed to load ${fullPath}: ${reason}\n` })
+    failed = true
+    throw new FS.ErrnoError(EIO)
+  }
+  const load = () => {
+    if (failed) fail('')
+    let data: Uint8Array
+    try {
+      data = syncFetchBytes(url)
+    } catch (e) {
+      return fail(e instanceof Error ? e.message : String(e))
+    }
+    if (typeof knownSize === 'number' && data.length !== knownSize) {
+      fail(`${data.length} bytes, the manifest lists ${knownSize}`)
+    }
+    lazyStats.files++
+    lazyStats.bytes += data.length
+    settle(data)
+  }
+
+  Object.defineProperty(node, 'contents', {
+    configurable: true,
+    enumerable: true,
+    get: () => { load(); return node.contents },
+    set: (value: Uint8Array | null) => settle(value),
+  })
+  Object.defineProperty(node, 'usedBytes', {
+    configurable: true,
+    enumerable: true,
+    // A known size answers stat() without downloading anything
+    get: () => {
+      if (typeof knownSize === 'number') return knownSize
+      load()
+      return node.usedBytes
+    },
+    set: (value: number) => define('usedBytes', value),
+  })
+}
+
+function reportLazyStats(id: number) {
+  if (lazyLibrary) {
+    post({ type: 'lazy_stats', id, ...lazyStats })
+  }
+}
+
+// Fetch lean.wasm through the app's persistent cache (Cache Storage is per-origin,
+// so the worker sees the same caches as the page). No cache name = plain fetch.
+async function fetchWasm(url: string, cacheName?: string | null): Promise<Response> {
+  if (!cacheName || typeof caches === 'undefined') return fetch(url)
+  const cache = await caches.open(cacheName)
+  const hit = await cache.match(url)
+  if (hit) return hit
+  const response = await fetch(url)
+  if (response.ok) {
+    // Not being cached (e.g. over quota) only costs a download next time
+    cache.put(url, response.clone()).catch(() => {})
+  }
+  return response
+}
+
+// lean.js is Emscripten's ES module build (-sMODULARIZE -sEXPORT_ES6): its default
+// export creates the runtime from our Module config. Importing it keeps this a module
+// worker without evaluating the script as text.
+async function importRuntime(url: string): Promise<LeanModuleFactory> {
+  const exports = await import(/* @vite-ignore */ new URL(url, self.location.href).href) as { default?: unknown }
+  if (typeof exports.default !== 'function') {
+    throw new Error(`${url} is not an ES module build of Lean (emcc -sMODULARIZE -sEXPORT_ES6)`)
+  }
+  return exports.default as LeanModuleFactory
+}
+
+// Helper to call main() - works even if callMain wasn't exported
+function runMain(Module: LeanModule, args: string[]): number {
+  if (typeof Module.callMain === 'function') {
+    return Module.callMain(args)
+  }
+  // Fallback: manual argv setup
+  const fullArgs = ['lean', ...args]
+  const argc = fullArgs.length
+  const argPtrs = fullArgs.map(arg =>
+    Module.stringToNewUTF8 ? Module.stringToNewUTF8(arg) : Module.allocateUTF8!(arg)
+  )
+  const ptrSize = 4
+  const argvPtr = Module._malloc(ptrSize * (argc + 1))
+  for (let i = 0; i < argc; i++) {
+    Module.setValue(argvPtr + i * ptrSize, argPtrs[i], 'i32')
+  }
+  Module.setValue(argvPtr + argc * ptrSize, 0, 'i32')
+  return Module.ccall('main', 'number', ['number', 'number'], [argc, argvPtr]) as number
+}
+
+// preRun: runtime exists but main() hasn't run - set up environment and directories.
+// ENV is only read when main() first asks for it, so it can be set this early.
+function setupEnvironment(Module: LeanModule) {
+  const { FS, ENV } = Module
+
+  // Put files directly in /lib/lean so both LEAN_PATH and sysroot path work:
+  // - LEAN_PATH=/lib/lean finds files in /lib/lean
+  // - Sysroot "/" + "/lib/lean" = "//lib/lean" (same as /lib/lean on Unix)
+  // Compiled workspace modules are found on WORKSPACE_OLEAN_DIR
+  ENV['LEAN_PATH'] = `/lib/lean:${WORKSPACE_OLEAN_DIR}`
+  mkdirp(FS, '/lib/lean')
+  mkdirp(FS, WORKSPACE_OLEAN_DIR)
+  try { FS.chdir(WORKSPACE_DIR) } catch { /* keep cwd */ }
+}
+
+// Tell the app about library files that couldn't be created, instead of failing the load
+function reportMountErrors(id: number, failed: string[]) {
+  if (failed.length === 0) return
+  const names = failed.slice(0, 5).join(', ') + (failed.length > 5 ? ', ...' : '')
+  post({ type: 'stderr', id, data: `Failed to mount ${failed.length} library files: ${names}\n` })
+}
+
+// Packed library: the buffer is a SharedArrayBuffer when the page is cross-origin isolated.
+// Each file is a view into it; canOwn lets MEMFS keep the view instead of copying it,
+// so the library is never duplicated.
+function mountLibrary(FS: EmscriptenFS, library: LibraryBlob, id: number) {
+  const mountStart = performance.now()
+  const failed: string[] = []
+  for (const entry of library.entries) {
+    try {
+      const fullPath = '/lib/lean/' + stripLibraryPrefix(entry.name)
+      mkdirp(FS, fullPath.substring(0, fullPath.lastIndexOf('/')))
+      FS.writeFile(fullPath, new Uint8Array(library.buffer, entry.offset, entry.length), { canOwn: true })
+    } catch {
+      failed.push(entry.name)
+    }
+  }
+  post({ type: 'library_mounted', id, ms: performance.now() - mountStart })
+  reportMountErrors(id, failed)
+}
+
+function mountLazyLibrary(FS: EmscriptenFS, library: LazyLibrary, cached: Map<string, Uint8Array>, id: number) {
+  const lazyStart = performance.now()
+  const failed: string[] = []
+  const sizes = library.sizes ?? {}
+  for (const name of library.files) {
+    try {
+      const fullPath = '/lib/lean/' + name
+      const data = cached.get(name)
+      if (data) {
+        mkdirp(FS, fullPath.substring(0, fullPath.lastIndexOf('/')))
+        FS.writeFile(fullPath, data, { canOwn: true })
+        lazyStats.cached++
+      } else {
+        createLazyFile(FS, fullPath, library.baseUrl + name, sizes[name])
+      }
+    } catch {
+      failed.push(name)
+    }
+  }
+  post({ type: 'library_mounted', id, ms: performance.now() - lazyStart })
+  reportMountErrors(id, failed)
+}
+
+// Pass whole write() calls on fd 1 to the app when the run asks for raw stdout.
+// The default stream only hands out complete lines, which would hold back output
+// that doesn't end in a newline until more output arrives.
+function interceptStdout(FS: EmscriptenFS) {
+  const stream = FS.getStream(1)
+  if (!stream) return
+  const ops = stream.stream_ops
+  stream.stream_ops = {
+    ...ops,
+    write: (s, buffer, offset, length, position) => {
+      if (!rawStdout || runId === null) return ops.write(s, buffer, offset, length, position)
+      // buffer is a view of the (shared) wasm heap, possibly signed - copy the bytes out
+      const data = new Uint8Array(buffer.buffer, buffer.byteOffset + offset, length).slice()
+      post({ type: 'stdout_bytes', id: runId, data })
+      return length
+    },
+  }
+}
+
+// Size of the wasm linear memory (shared with every pthread)
+function findMemory(imports: WebAssembly.Imports, instance: WebAssembly.Instance): WebAssembly.Memory | null {
+  const candidates = [
+    ...Object.values(imports).flatMap(module => Object.values(module)),
+    ...Object.values(instance.exports),
+  ]
+  return candidates.find((value): value is WebAssembly.Memory => value instanceof WebAssembly.Memory) ?? null
+}
+
+// Report the end of the run exactly once (an abort is followed by main() throwing)
+function finishRun(id: number, exitCode: number, abort?: string) {
+  if (runFinished) return
+  runFinished = true
+  reportLazyStats(id)
+  const outputs = pendingConfig?.outputs
+  const files = leanModule && outputs ? collectFiles(leanModule.FS, outputs) : undefined
+  const memoryBytes = wasmMemory?.buffer.byteLength ?? null
+  post({ type: 'done', id, exitCode, abort, files, memoryBytes }, files?.map(f => f.data.buffer) ?? [])
+}
+
+// `*` and `?` stay within a path segment; `**/` matches any number of directories
+function globToRegExp(pattern: string): RegExp {
+  let source = ''
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i]
+    if (ch === '*' && pattern[i + 1] === '*') {
+      const slash = pattern[i + 2] === '/'
+      source += slash ? '(?:.*/)?' : '.*'
+      i += slash ? 2 : 1
+    } else if (ch === '*') {
+      source += '[^/]*'
+    } else if (ch === '?') {
+      source += '[^/]'
+    } else {
+      source += ch.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    }
+  }
+  return new RegExp(`^${source}$`)
+}
+
+// Regular files matching any of `patterns` (relative ones are under WORKSPACE_DIR),
+// copied out of MEMFS so their buffers can be transferred
+function collectFiles(FS: EmscriptenFS, patterns: string[]): RunnerOutputFile[] {
+  const found = new Map<string, Uint8Array>()
+  for (const raw of patterns) {
+    const pattern = raw.startsWith('/') ? raw : `${WORKSPACE_DIR}/${raw}`
+    const segments = pattern.split('/')
+    const firstGlob = segments.findIndex(s => /[*?]/.test(s))
+    if (firstGlob < 0) {
+      try {
+        found.set(pattern, (FS.readFile(pattern, { encoding: 'binary' }) as Uint8Array).slice())
+      } catch {
+        // Not written (e.g. compilation failed)
+      }
+      continue
+    }
+    // Walk from the last directory before the first wildcard
+    const regExp = globToRegExp(pattern)
+    const walk = (dir: string) => {
+      let entries: string[]
+      try { entries = FS.readdir(dir) } catch { return }
+      for (const name of entries) {
+        if (name === '.' || name === '..') continue
+        const path = dir === '/' ? `/${name}` : `${dir}/${name}`
+        let mode: number
+        try { mode = FS.stat(path).mode } catch { continue }
+        if (FS.isDir(mode)) walk(path)
+        else if (FS.isFile(mode) && regExp.test(path) && !found.has(path)) {
+          found.set(path, (FS.readFile(path, { encoding: 'binary' }) as Uint8Array).slice())
+        }
+      }
+    }
+    walk(segments.slice(0, firstGlob).join('/') || '/')
+  }
+  return [...found].map(([path, data]) => ({ path, data }))
+}
+
+function readFiles(id: number, patterns: string[]) {
+  if (!leanModule) {
+    post({ type: 'error', id, data: 'Runner is not initialized' })
+    return
+  }
+  if (runId !== null && !runFinished) {
+    post({ type: 'error', id, data: 'Files can only be read once the run has finished' })
+    return
+  }
+  const files = collectFiles(leanModule.FS, patterns)
+  post({ type: 'files', id, files }, files.map(f => f.data.buffer))
+}
+
+// Wall-time limits are enforced by the app, which terminates the whole worker
+function execute(Module: LeanModule, args: string[], id: number) {
+  let exitCode = 0
+  try {
+    runMain(Module, args)
+  } catch (e) {
+    // Handle ExitStatus exceptions (normal exit)
+    if (isExitStatus(e)) {
+      exitCode = e.status || 0
+    } else {
+      finishRun(id, 1, e instanceof Error ? e.message : String(e))
+      return
+    }
+  }
+  finishRun(id, exitCode)
+}
+
+// Load lean.js and wait for the runtime; noInitialRun leaves main() for `start`.
+// The runtime is ready once the wasm is compiled and the pthread pool is loaded -
+// that is the "workers ready" signal.
+function initLean(id: number, url: string, cacheName?: string | null) {
+  if (initStarted) {
+    post({ type: 'error', id, data: 'This runner has already been initialized' })
+    return
+  }
+  initStarted = true
+  runtimeUrl = url
+  outputId = id
+  const initStart = performance.now()
+
+  const moduleConfig: EmscriptenModuleConfig = {
+    locateFile: (path) => runtimeUrl + path,
+    // pthread workers must load lean.js itself, not this worker's script
+    mainScriptUrlOrBlob: runtimeUrl + 'lean.js',
+    // Compile lean.wasm from the persistent cache when possible
+    instantiateWasm: (imports, successCallback) => {
+      fetchWasm(runtimeUrl + 'lean.wasm', cacheName)
+        .then(response => WebAssembly.instantiateStreaming(response, imports))
+        .then(result => {
+          wasmMemory = findMemory(imports, result.instance)
+          successCallback(result.instance, result.module)
+        })
+        .catch(e => {
+          post({ type: 'error', id, data: 'Failed to instantiate lean.wasm: ' + (e instanceof Error ? e.message : e) })
+        })
+      return {}
+    },
+    print: (text) => post({ type: 'stdout', id: outputId, data: text }),
+    printErr: (text) => post({ type: 'stderr', id: outputId, data: text }),
+    // Installed at init; the channel itself arrives with `configure`
+    stdin: () => readStdin ? readStdin() : null,
+    setStatus: (text) => {
+      if (text) post({ type: 'progress', id: outputId, data: text })
+    },
+    noInitialRun: true,  // DON'T auto-run main - the library and code arrive later
+    // A modularized runtime fills in the config object itself, so it is the Module here
+    preRun: [() => setupEnvironment(moduleConfig as LeanModule)],
+    onAbort: (what) => {
+      if (runId !== null) {
+        finishRun(runId, 1, String(what || 'unknown'))
+      } else if (leanModule) {
+        post({ type: 'error', id: outputId, data: 'Aborted: ' + (what || 'unknown') })
+      }
+      // During init the factory's promise rejects instead
+    },
+  }
+
+  // The factory resolves once the runtime is initialized and the pthread pool is loaded
+  importRuntime(runtimeUrl + 'lean.js')
+    .then(createLean => createLean(moduleConfig))
+    .then(Module => {
+      interceptStdout(Module.FS)
+      leanModule = Module
+      post({
+        type: 'initialized',
+        id,
+        ms: performance.now() - initStart,
+        memoryBytes: wasmMemory?.buffer.byteLength ?? null,
+      })
+    })
+    .catch(e => {
+      post({ type: 'error', id, data: `Failed to load lean.js: ${e instanceof Error ? e.message : String(e)}` })
+    })
+}
+
+async function loadLibrary(msg: Extract<RunnerRequest, { type: 'load_library' }>) {
+  if (!leanModule) {
+    post({ type: 'error', id: msg.id, data: 'Runner is not initialized' })
+    return
+  }
+  if (libraryMounted) {
+    post({ type: 'error', id: msg.id, data: 'A library is already mounted in this runner' })
+    return
+  }
+  if ('lazy' in msg) {
+    // Fall back to eager loading when synchronous fetching isn't possible
+    const lazyOk = msg.lazy.files.length > 0 &&
+      canFetchSynchronously(msg.lazy.baseUrl + msg.lazy.files[0])
+    if (lazyOk) {
+      const { FS } = leanModule
+      lazyLibrary = msg.lazy
+      libraryMounted = true
+      // Without the persistent cache every file is simply fetched on demand
+      const cached = await readCachedFiles(msg.lazy).catch(() => new Map<string, Uint8Array>())
+      mountLazyLibrary(FS, msg.lazy, cached, msg.id)
+    }
+    post({ type: 'library_received', id: msg.id, lazy: lazyOk })
+  } else {
+    if (msg.library.entries.length > 0) {
+      libraryMounted = true
+      mountLibrary(leanModule.FS, msg.library, msg.id)
+    }
+    post({ type: 'library_received', id: msg.id })
+  }
+}
+
+function startLean(id: number) {
+  const config = pendingConfig
+  const Module = leanModule
+  if (!Module) {
+    post({ type: 'error', id, data: 'Runner is not initialized' })
+    return
+  }
+  if (!config) {
+    post({ type: 'error', id, data: 'No configuration received' })
+    return
+  }
+  if (runId !== null) {
+    post({ type: 'error', id, data: 'This runner has already been started' })
+    return
+  }
+  runId = id
+  outputId = id
+
+  // Write the code file and any other inputs
+  const inputs = [...(config.files ?? [])]
+  if (config.code && config.path) inputs.push({ path: config.path, data: config.code })
+  for (const file of inputs) {
+    try {
+      const dir = file.path.substring(0, file.path.lastIndexOf('/'))
+      if (dir) mkdirp(Module.FS, dir)
+      Module.FS.writeFile(file.path, file.data)
+    } catch (e) {
+      // main() never runs, so this is the reply to `start`
+      runFinished = true
+      post({ type: 'error', id, data: `Failed to write ${file.path}: ${e instanceof Error ? e.message : String(e)}` })
+      return
+    }
+  }
+  execute(Module, config.args, id)
+}
+
+self.addEventListener('message', (event: MessageEvent<RunnerRequest>) => {
+  const msg = event.data
+  if (typeof msg?.id !== 'number') {
+    post({ type: 'error', id: null, data: `Malformed runner request: ${JSON.stringify(msg?.type)}` })
+    return
+  }
+
+  switch (msg.type) {
+    case 'init':
+      initLean(msg.id, msg.runtimeUrl, msg.cacheName)
+      break
+    case 'configure':
+      pendingConfig = msg.config
+      readStdin = msg.config.stdin ? createStdinReader(msg.config.stdin) : null
+      rawStdout = msg.config.rawStdout ?? false
+      post({ type: 'configured', id: msg.id })
+      break
+    case 'load_library':
+      loadLibrary(msg)
+      break
+    case 'start':
+      startLean(msg.id)
+      break
+    case 'read_files':
+      readFiles(msg.id, msg.patterns)
+      break
+    default:
+      post({ type: 'error', id: (msg as RunnerRequest).id, data: `Unknown runner request: ${(msg as { type?: unknown }).type}` })
+  }
+})
+
+post({ type: 'ready', id: null, protocolVersion: PROTOCOL_VERSION })
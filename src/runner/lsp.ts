@@ -0,0 +1,291 @@
+/**
+ * Language server client for one Lean document
+ *
+ * `lean --server` is only a watchdog that spawns a `lean --worker` process per file,
+ * and a WASM runtime can't spawn processes. So the runner runs the file worker
+ * directly and this client plays the watchdog's part: it sends `initialize` and
+ * `textDocument/didOpen`, then edits and requests, as LSP JSON-RPC framed with
+ * Content-Length headers over the runner's stdin and (raw) stdout.
+ */
+
+import type { LeanDiagnostic } from '../diagnostics'
+import { characterToColumn } from '../text-position'
+import type { RunnerFile } from './protocol'
+import type { LeanRunner, PreparedLibrary, RunResult } from './runner'
+import { StdinWriter, createStdinBuffer } from './stdin'
+
+// LSP positions are 0-based; `character` counts UTF-16 code units like JS strings
+export interface LspPosition {
+  line: number
+  character: number
+}
+
+export interface LspRange {
+  start: LspPosition
+  end: LspPosition
+}
+
+export interface LspDiagnostic {
+  range: LspRange
+  fullRange?: LspRange
+  severity?: 1 | 2 | 3 | 4      // error, warning, information, hint
+  message: string
+  source?: string
+}
+
+// Tactic state at a position ($/lean/plainGoal), or the expected type of a term
+export interface GoalState {
+  goals: string[]
+  termGoal?: string
+}
+
+export interface LspCallbacks {
+  onDiagnostics?: (diagnostics: LspDiagnostic[], version: number | null) => void
+  onProcessing?: (ranges: LspRange[]) => void    // Parts of the file still being elaborated
+  onOutput?: (text: string) => void              // stderr of the worker
+  onExit?: (result: RunResult) => void
+}
+
+interface JsonRpcMessage {
+  jsonrpc: '2.0'
+  id?: number | string | null
+  method?: string
+  params?: unknown
+  result?: unknown
+  error?: { code: number; message: string }
+}
+
+interface PendingRequest {
+  method: string
+  resolve: (result: unknown) => void
+  reject: (err: Error) => void
+}
+
+const HEADER_END = [13, 10, 13, 10]  // \r\n\r\n
+
+export class LspClient {
+  readonly uri: string
+  private runner: LeanRunner
+  private stdin: StdinWriter
+  private callbacks: LspCallbacks
+  private nextId = 1
+  private pending = new Map<number, PendingRequest>()
+  private received = new Uint8Array(0)
+  private encoder = new TextEncoder()
+  private decoder = new TextDecoder()
+  private _version = 1
+  private result: RunResult | null = null
+
+  private constructor(runner: LeanRunner, stdin: StdinWriter, uri: string, callbacks: LspCallbacks) {
+    this.runner = runner
+    this.stdin = stdin
+    this.uri = uri
+    this.callbacks = callbacks
+  }
+
+  // Start a file worker for `text` in `runner`, which the client owns from now on.
+  // `files` are written first, e.g. compiled workspace modules the document imports.
+  static async start(
+    runner: LeanRunner,
+    library: PreparedLibrary,
+    document: { uri: string; text: string; files?: RunnerFile[] },
+    callbacks: LspCallbacks = {}
+  ): Promise<LspClient> {
+    const buffer = createStdinBuffer()
+    const client = new LspClient(runner, new StdinWriter(buffer), document.uri, callbacks)
+    runner.setCallbacks({
+      onStdoutBytes: (data) => client.receive(data),
+      onStdout: (text) => callbacks.onOutput?.(text),
+      onStderr: (text) => callbacks.onOutput?.(text),
+    })
+
+    try {
+      await runner.configure({ args: ['--worker'], stdin: buffer, rawStdout: true, files: document.files })
+      await runner.ensureLibrary(library)
+    } catch (err) {
+      runner.dispose()
+      throw err
+    }
+    runner.start().then(result => client.handleExit(result))
+
+    // The worker reads `initialize` and `didOpen` before anything else and doesn't
+    // answer `initialize` (the watchdog would)
+    client.write({ jsonrpc: '2.0', id: 0, method: 'initialize', params: { processId: null, rootUri: null, capabilities: {} } })
+    client.notify('textDocument/didOpen', {
+      textDocument: { uri: document.uri, languageId: 'lean4', version: client._version, text: document.text },
+      dependencyBuildMode: 'never',
+    })
+    return client
+  }
+
+  get exited(): boolean {
+    return this.result !== null
+  }
+
+  // Version of the text the worker has last been sent
+  get version(): number {
+    return this._version
+  }
+
+  // Replace the whole document
+  didChange(text: string): number {
+    this._version++
+    this.notify('textDocument/didChange', {
+      textDocument: { uri: this.uri, version: this._version },
+      contentChanges: [{ text }],
+    })
+    return this._version
+  }
+
+  // Hover text at `position` (markdown), or null
+  async hover(position: LspPosition): Promise<string | null> {
+    const result = await this.request('textDocument/hover', this.positionParams(position)) as
+      { contents?: { value?: string } | string } | null
+    if (!result?.contents) return null
+    return typeof result.contents === 'string' ? result.contents : result.contents.value ?? null
+  }
+
+  // Definition of the symbol at `position` if it is in this document
+  async definition(position: LspPosition): Promise<{ range: LspRange | null; uri: string | null }> {
+    const result = await this.request('textDocument/definition', this.positionParams(position)) as
+      Array<{ uri?: string; range?: LspRange; targetUri?: string; targetSelectionRange?: LspRange }> | null
+    const first = Array.isArray(result) ? result[0] : null
+    if (!first) return { range: null, uri: null }
+    const uri = first.targetUri ?? first.uri ?? null
+    const range = first.targetSelectionRange ?? first.range ?? null
+    return { uri, range: uri === this.uri ? range : null }
+  }
+
+  // Tactic goals at `position`; the term goal when there is no tactic state
+  async goals(position: LspPosition): Promise<GoalState> {
+    const params = this.positionParams(position)
+    const plain = await this.request('$/lean/plainGoal', params) as { goals?: string[] } | null
+    if (plain?.goals && plain.goals.length > 0) return { goals: plain.goals }
+    const term = await this.request('$/lean/plainTermGoal', params) as { goal?: string } | null
+    return { goals: [], termGoal: term?.goal }
+  }
+
+  stop(): void {
+    this.runner.cancel()
+  }
+
+  private positionParams(position: LspPosition) {
+    return { textDocument: { uri: this.uri }, position }
+  }
+
+  private request(method: string, params: unknown): Promise<unknown> {
+    if (this.result) return Promise.reject(new Error('Language server has exited'))
+    const id = this.nextId++
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { method, resolve, reject })
+      this.write({ jsonrpc: '2.0', id, method, params })
+    })
+  }
+
+  private notify(method: string, params: unknown) {
+    if (this.result) return
+    this.write({ jsonrpc: '2.0', method, params })
+  }
+
+  private write(message: JsonRpcMessage) {
+    const body = this.encoder.encode(JSON.stringify(message))
+    this.stdin.write(`Content-Length: ${body.length}\r\n\r\n`)
+    this.stdin.write(body)
+  }
+
+  // Append stdout bytes and dispatch every complete message
+  private receive(data: Uint8Array) {
+    const merged = new Uint8Array(this.received.length + data.length)
+    merged.set(this.received)
+    merged.set(data, this.received.length)
+    this.received = merged
+
+    for (;;) {
+      const headerEnd = findSequence(this.received, HEADER_END)
+      if (headerEnd < 0) return
+      const header = this.decoder.decode(this.received.subarray(0, headerEnd))
+      const length = Number(/Content-Length:\s*(\d+)/i.exec(header)?.[1])
+      const bodyStart = headerEnd + HEADER_END.length
+      if (!Number.isFinite(length)) {
+        console.warn('Language server sent a message without Content-Length:', header)
+        this.received = this.received.slice(bodyStart)
+        continue
+      }
+      if (this.received.length < bodyStart + length) return
+      const body = this.decoder.decode(this.received.subarray(bodyStart, bodyStart + length))
+      this.received = this.received.slice(bodyStart + length)
+      try {
+        this.dispatch(JSON.parse(body) as JsonRpcMessage)
+      } catch (err) {
+        console.error('Bad language server message:', err, body)
+      }
+    }
+  }
+
+  private dispatch(message: JsonRpcMessage) {
+    // Response to one of our requests
+    if (message.method === undefined) {
+      const pending = typeof message.id === 'number' ? this.pending.get(message.id) : undefined
+      if (!pending) return
+      this.pending.delete(message.id as number)
+      if (message.error) pending.reject(new Error(`${pending.method}: ${message.error.message}`))
+      else pending.resolve(message.result ?? null)
+      return
+    }
+
+    // Request from the server: nothing is supported, but it must get an answer
+    if (message.id !== undefined && message.id !== null) {
+      this.write({ jsonrpc: '2.0', id: message.id, error: { code: -32601, message: `Unsupported method ${message.method}` } })
+      return
+    }
+
+    switch (message.method) {
+      case 'textDocument/publishDiagnostics': {
+        const params = message.params as { uri: string; version?: number; diagnostics: LspDiagnostic[] }
+        if (params.uri === this.uri) this.callbacks.onDiagnostics?.(params.diagnostics, params.version ?? null)
+        break
+      }
+      case '$/lean/fileProgress': {
+        const params = message.params as { processing: Array<{ range: LspRange }> }
+        this.callbacks.onProcessing?.(params.processing.map(p => p.range))
+        break
+      }
+    }
+  }
+
+  private handleExit(result: RunResult) {
+    this.result = result
+    const err = new Error(`Language server exited (${result.outcome})`)
+    for (const pending of this.pending.values()) pending.reject(err)
+    this.pending.clear()
+    this.callbacks.onExit?.(result)
+  }
+}
+
+function findSequence(data: Uint8Array, sequence: number[]): number {
+  outer: for (let i = 0; i + sequence.length <= data.length; i++) {
+    for (let j = 0; j < sequence.length; j++) {
+      if (data[i + j] !== sequence[j]) continue outer
+    }
+    return i
+  }
+  return -1
+}
+
+const SEVERITIES = ['error', 'warning', 'information', 'information'] as const
+
+// LSP diagnostic for `text` in the shape `lean --json` prints (1-based lines, 0-based
+// code point columns)
+export function toLeanDiagnostic(diagnostic: LspDiagnostic, fileName: string, text: string): LeanDiagnostic {
+  const range = diagnostic.fullRange ?? diagnostic.range
+  const lines = text.split('\n')
+  const toPos = ({ line, character }: LspPosition) =>
+    ({ line: line + 1, column: characterToColumn(lines[line] ?? '', character) })
+  return {
+    severity: SEVERITIES[(diagnostic.severity ?? 1) - 1],
+    data: diagnostic.message,
+    pos: toPos(range.start),
+    endPos: toPos(range.end),
+    fileName,
+  }
+}
@@ -0,0 +1,209 @@
+/**
+ * Pool of pre-warmed Lean runners
+ *
+ * main() is one-shot, so every run needs a fresh runtime. The pool keeps a few runners
+ * that have already loaded lean.js, compiled lean.wasm and started their pthread
+ * workers (and optionally mounted the library of the last run), waiting at
+ * noInitialRun. A run takes one and a replacement warms up in the background.
+ */
+
+import type { LibraryBlob } from '../utils'
+import type { LazyLibrary } from './protocol'
+import { LeanRunner } from './runner'
+
+export interface RunnerPoolOptions {
+  size: number                 // Idle runners to keep ready (0 = no pre-warming)
+  memoryCapBytes: number       // Upper bound for the wasm memory of all idle runners
+  runtimeUrl: string           // Toolchain directory lean.js and lean.wasm are loaded from
+  cacheName?: string | null    // Persistent cache lean.wasm is compiled from
+}
+
+export const DEFAULT_POOL_OPTIONS: RunnerPoolOptions = {
+  size: 1,
+  memoryCapBytes: 2 * 1024 * 1024 * 1024,
+  runtimeUrl: '/lean-wasm/',
+}
+
+// Library pre-mounted into idle runners
+interface PoolLibrary {
+  key: string
+  library: LibraryBlob | LazyLibrary
+}
+
+export class RunnerPool {
+  private options: RunnerPoolOptions
+  private idle: LeanRunner[] = []
+  private warming = 0
+  private library: PoolLibrary | null = null
+  // Library loads still in flight, by runner
+  private preloads = new Map<LeanRunner, { key: string; done: Promise<void> }>()
+  // Bumped whenever idle runners become unusable (new cache, disposal)
+  private generation = 0
+  private disposed = false
+  // Memory of the last initialized runner, used to budget runners still warming
+  private lastMemoryBytes: number | null = null
+
+  constructor(options: Partial<RunnerPoolOptions> = {}) {
+    this.options = { ...DEFAULT_POOL_OPTIONS, ...options }
+  }
+
+  // Change size, memory cap, runtime or cache. A different runtime or cache drops the
+  // idle runners.
+  setOptions(options: Partial<RunnerPoolOptions>): void {
+    const runtimeChanged =
+      (options.cacheName !== undefined && options.cacheName !== this.options.cacheName) ||
+      (options.runtimeUrl !== undefined && options.runtimeUrl !== this.options.runtimeUrl)
+    this.options = { ...this.options, ...options }
+    if (runtimeChanged) this.drain()
+    this.trim()
+    this.fill()
+  }
+
+  // Library to mount into runners warmed from now on. Idle runners without a
+  // library get it right away; idle runners holding another library are replaced.
+  setLibrary(key: string, library: LibraryBlob | LazyLibrary): void {
+    if (this.library?.key === key) return
+    this.library = { key, library }
+    for (const runner of [...this.idle]) {
+      const current = this.libraryKeyOf(runner)
+      if (current === null) {
+        this.preload(runner)
+      } else if (current !== key) {
+        this.remove(runner)
+      }
+    }
+    this.fill()
+  }
+
+  // Take a ready runner, preferring one that already has library `libraryKey` and
+  // never one with a different library. Starts a fresh one if none is idle.
+  async acquire(libraryKey: string | null = null): Promise<LeanRunner> {
+    if (this.disposed) throw new Error('Runner pool disposed')
+    const index = this.pickIdle(libraryKey)
+    let runner: LeanRunner
+    if (index >= 0) {
+      runner = this.idle.splice(index, 1)[0]
+      // Let a library load that is still in flight finish first
+      await this.preloads.get(runner)?.done
+      if (runner.isDisposed) runner = await this.spawn()
+    } else {
+      runner = await this.spawn()
+    }
+    this.fill()
+    return runner
+  }
+
+  // Make sure at least one runner is ready (used to check that Lean loads at all).
+  // Rejects if the pool is drained or disposed meanwhile: the runner is for the old runtime.
+  async warm(): Promise<void> {
+    if (this.pickIdle(null) >= 0) return
+    const generation = this.generation
+    const runner = await this.spawn()
+    if (generation !== this.generation || this.disposed) {
+      runner.dispose()
+      throw new Error('Runner pool changed while warming')
+    }
+    this.idle.push(runner)
+    this.trim()
+    if (this.library && !runner.isDisposed) this.preload(runner)
+    this.fill()
+  }
+
+  // Terminate idle runners; runners already handed out are not affected
+  drain(): void {
+    this.generation++
+    for (const runner of this.idle) runner.dispose()
+    this.idle = []
+  }
+
+  dispose(): void {
+    this.disposed = true
+    this.drain()
+  }
+
+  // Library a runner has or is loading
+  private libraryKeyOf(runner: LeanRunner): string | null {
+    return runner.libraryKey ?? this.preloads.get(runner)?.key ?? null
+  }
+
+  private pickIdle(libraryKey: string | null): number {
+    this.idle = this.idle.filter(r => !r.isDisposed)
+    if (libraryKey === null) return this.idle.length > 0 ? 0 : -1
+    const match = this.idle.findIndex(r => this.libraryKeyOf(r) === libraryKey)
+    if (match >= 0) return match
+    return this.idle.findIndex(r => this.libraryKeyOf(r) === null)
+  }
+
+  private remove(runner: LeanRunner) {
+    this.idle = this.idle.filter(r => r !== runner)
+    runner.dispose()
+  }
+
+  private async spawn(): Promise<LeanRunner> {
+    const runner = await LeanRunner.create()
+    try {
+      await runner.init(this.options.runtimeUrl, this.options.cacheName)
+    } catch (err) {
+      runner.dispose()
+      throw err
+    }
+    if (runner.memoryBytes !== null) this.lastMemoryBytes = runner.memoryBytes
+    return runner
+  }
+
+  private idleMemory(): number {
+    return this.idle.reduce((sum, r) => sum + (r.memoryBytes ?? this.lastMemoryBytes ?? 0), 0)
+  }
+
+  // Would one more runner stay within the memory cap?
+  private hasMemoryForAnother(): boolean {
+    return this.idleMemory() + (this.lastMemoryBytes ?? 0) <= this.options.memoryCapBytes
+  }
+
+  // Drop idle runners beyond the size or memory limit
+  private trim() {
+    while (this.idle.length > this.options.size ||
+      (this.idle.length > 0 && this.idleMemory() > this.options.memoryCapBytes)) {
+      this.idle.pop()?.dispose()
+    }
+  }
+
+  // Warm runners in the background until the pool is full, one at a time.
+  // A failure stops the refill; the next acquire() tries again.
+  private fill() {
+    if (this.disposed || this.warming > 0) return
+    if (this.idle.length >= this.options.size || !this.hasMemoryForAnother()) return
+
+    const generation = this.generation
+    this.warming++
+    this.spawn()
+      .then(runner => {
+        this.warming--
+        if (generation !== this.generation || this.disposed) {
+          runner.dispose()
+          return
+        }
+        this.idle.push(runner)
+        this.trim()
+        if (this.library && !runner.isDisposed) this.preload(runner)
+        this.fill()
+      }, err => {
+        this.warming--
+        console.warn('Failed to pre-warm Lean runner:', err)
+      })
+  }
+
+  // Mount the pool library into an idle runner; a runner that fails is dropped
+  private preload(runner: LeanRunner) {
+    const library = this.library
+    if (!library || this.preloads.has(runner)) return
+    const done = runner.loadLibrary(library.library, library.key)
+      .then(() => undefined)
+      .catch(err => {
+        console.warn('Failed to pre-load library into runner:', err)
+        this.remove(runner)
+      })
+      .finally(() => this.preloads.delete(runner))
+    this.preloads.set(runner, { key: library.key, done })
+  }
+}
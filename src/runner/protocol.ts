@@ -0,0 +1,92 @@
+/**
+ * Messages exchanged between the app and the Lean runner worker
+ *
+ * Every request carries an `id` (unique per runner). Replies and the events a request
+ * produces (a run's output, mount metrics) carry the same id back, so calls can overlap
+ * and each message can be matched to the request it belongs to.
+ */
+
+import type { LibraryBlob } from '../utils'
+
+// Bump whenever a message changes shape; the runner announces its version in `ready`
+export const PROTOCOL_VERSION = 10
+
+// Library served on demand by the runner: placeholders for `files`, fetched from baseUrl.
+// Files already in the named persistent cache are mounted from there up front.
+export interface LazyLibrary {
+  baseUrl: string
+  files: string[]
+  sizes?: Record<string, number>
+  cacheName?: string | null
+}
+
+// Workspace sources live here (the runner's cwd); compiled workspace modules go to
+// WORKSPACE_OLEAN_DIR, which is on LEAN_PATH next to the library
+export const WORKSPACE_DIR = '/workspace'
+export const WORKSPACE_OLEAN_DIR = '/workspace/build'
+
+export interface RunnerFile {
+  path: string
+  data: Uint8Array | string
+}
+
+// A file read back from the runner's filesystem
+export interface RunnerOutputFile {
+  path: string
+  data: Uint8Array
+}
+
+export interface RunnerConfig {
+  args: string[]
+  code?: string
+  path?: string
+  // More files to write before main() runs, e.g. other workspace modules' .olean files
+  files?: RunnerFile[]
+  // Paths or globs (see `read_files`) to read back once main() exits; the files come
+  // with `done`
+  outputs?: string[]
+  // stdin channel (see stdin.ts); without one the program reads EOF
+  stdin?: SharedArrayBuffer
+  // Deliver stdout as `stdout_bytes` per write() instead of text lines (for framed
+  // protocols such as LSP, whose messages don't end in a newline)
+  rawStdout?: boolean
+}
+
+// App -> runner
+export type RunnerRequestBody =
+  // Load the runtime from runtimeUrl (the toolchain directory with lean.js and lean.wasm);
+  // lean.wasm comes from the named persistent cache when given
+  | { type: 'init'; runtimeUrl: string; cacheName?: string | null }
+  | { type: 'configure'; config: RunnerConfig }
+  | { type: 'load_library'; library: LibraryBlob }
+  | { type: 'load_library'; lazy: LazyLibrary }
+  | { type: 'start' }
+  // Files matching `patterns` once main() has exited (or before it starts). Patterns are
+  // paths, absolute or relative to WORKSPACE_DIR, with `*`, `?` and `**` (any directories).
+  | { type: 'read_files'; patterns: string[] }
+
+export type RunnerRequest = RunnerRequestBody & { id: number }
+
+// Runner -> app. `id` is null only for messages no request caused (the handshake,
+// warnings printed while the worker starts up).
+export type RunnerMessage =
+  | { type: 'ready'; id: null; protocolVersion: number }
+  // Runtime and pthread pool are ready; memoryBytes is the wasm memory size, if known
+  | { type: 'initialized'; id: number; ms: number; memoryBytes: number | null }
+  | { type: 'configured'; id: number }
+  | { type: 'library_received'; id: number; lazy?: boolean }
+  | { type: 'library_mounted'; id: number; ms: number }
+  // Files and bytes fetched on demand; `cached` files were mounted from the persistent cache
+  | { type: 'lazy_stats'; id: number; files: number; bytes: number; cached: number }
+  | { type: 'stdout'; id: number | null; data: string }
+  | { type: 'stdout_bytes'; id: number; data: Uint8Array }
+  | { type: 'stderr'; id: number | null; data: string }
+  | { type: 'progress'; id: number | null; data: string }
+  // `abort` is set when the runtime aborted (trap, OOM, failed assertion) instead of exiting
+  // memoryBytes: wasm memory size when main() ended; it only grows, so this is the run's peak
+  | { type: 'done'; id: number; exitCode: number; abort?: string; files?: RunnerOutputFile[]; memoryBytes: number | null }
+  | { type: 'files'; id: number; files: RunnerOutputFile[] }
+  | { type: 'error'; id: number | null; data: string }
+
+// Messages that settle a request
+export type RunnerReply = Extract<RunnerMessage, { type: 'initialized' | 'configured' | 'library_received' | 'done' | 'files' }>
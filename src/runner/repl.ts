@@ -0,0 +1,170 @@
+/**
+ * Long-lived Lean REPL session inside one runner
+ *
+ * Runs Repl.lean (`lean --run`) and talks to it in JSON lines over stdin/stdout.
+ * Every command answers with an environment snapshot id; later commands can continue
+ * from any snapshot, so imports are elaborated once per session instead of once per run.
+ */
+
+import type { LeanDiagnostic } from '../diagnostics'
+import type { LeanRunner, PreparedLibrary, RunResult } from './runner'
+import { StdinWriter, createStdinBuffer } from './stdin'
+import replSource from './Repl.lean?raw'
+
+export const REPL_PATH = '/workspace/Repl.lean'
+// Modules the REPL program itself imports; they must be in the session's library
+export const REPL_IMPORTS = 'import Lean.Elab.Frontend'
+
+export interface ReplResponse {
+  env: number                   // Snapshot after the command
+  messages: LeanDiagnostic[]
+}
+
+export interface ReplCallbacks {
+  onOutput?: (text: string, isError: boolean) => void  // Anything that isn't a reply
+  onExit?: (result: RunResult) => void
+}
+
+interface PendingCommand {
+  resolve: (response: ReplResponse) => void
+  reject: (err: Error) => void
+}
+
+export class ReplSession {
+  private runner: LeanRunner
+  private stdin: StdinWriter
+  private callbacks: ReplCallbacks
+  // Replies arrive in command order
+  private pending: PendingCommand[] = []
+  private result: RunResult | null = null
+
+  private constructor(runner: LeanRunner, stdin: StdinWriter, callbacks: ReplCallbacks) {
+    this.runner = runner
+    this.stdin = stdin
+    this.callbacks = callbacks
+  }
+
+  // Start the REPL in `runner`, which the session owns from now on
+  static async start(runner: LeanRunner, library: PreparedLibrary, callbacks: ReplCallbacks = {}): Promise<ReplSession> {
+    const buffer = createStdinBuffer()
+    const session = new ReplSession(runner, new StdinWriter(buffer), callbacks)
+    runner.setCallbacks({
+      onStdout: (line) => session.handleLine(line),
+      onStderr: (text) => callbacks.onOutput?.(text, true),
+    })
+
+    try {
+      await runner.configure({ args: ['--run', REPL_PATH], code: replSource, path: REPL_PATH, stdin: buffer })
+      await runner.ensureLibrary(library)
+    } catch (err) {
+      runner.dispose()
+      throw err
+    }
+
+    // No wall-time limit: the session lives until it is closed or stopped
+    runner.start().then(result => session.handleExit(result))
+    return session
+  }
+
+  get exited(): boolean {
+    return this.result !== null
+  }
+
+  // Elaborate `cmd` as the start of a file (no env) or on top of snapshot `env`
+  send(cmd: string, env?: number): Promise<ReplResponse> {
+    if (this.result) return Promise.reject(new Error('REPL session has ended'))
+    return new Promise((resolve, reject) => {
+      this.pending.push({ resolve, reject })
+      this.stdin.write(JSON.stringify(env === undefined ? { cmd } : { cmd, env }) + '\n')
+    })
+  }
+
+  // End of input: the REPL finishes its current command and exits
+  close(): void {
+    if (!this.stdin.closed) this.stdin.close()
+  }
+
+  // Stop right away, even in the middle of a command
+  stop(): void {
+    this.runner.cancel()
+  }
+
+  private handleLine(line: string) {
+    let reply: { env?: unknown; messages?: unknown; error?: unknown } | null = null
+    try {
+      const parsed = JSON.parse(line)
+      if (parsed && typeof parsed === 'object' && ('env' in parsed || 'error' in parsed)) reply = parsed
+    } catch {
+      // Not a reply - plain program output
+    }
+    if (!reply) {
+      this.callbacks.onOutput?.(line, false)
+      return
+    }
+
+    const pending = this.pending.shift()
+    if (!pending) {
+      console.warn('REPL reply without a pending command:', line)
+    } else if (typeof reply.error === 'string') {
+      pending.reject(new Error(reply.error))
+    } else {
+      pending.resolve({
+        env: Number(reply.env),
+        messages: Array.isArray(reply.messages) ? reply.messages as LeanDiagnostic[] : [],
+      })
+    }
+  }
+
+  private handleExit(result: RunResult) {
+    this.result = result
+    const err = new Error(`REPL session ended (${result.outcome})`)
+    for (const pending of this.pending.splice(0)) pending.reject(err)
+    this.callbacks.onExit?.(result)
+  }
+}
+
+// A buffer cut into REPL commands: the header (imports) and then one chunk per
+// top-level command. A command starts at a line in column 0; comments directly
+// above it belong to it. Good enough for stepping - Lean itself decides where
+// commands really end.
+export function splitCommands(code: string): { header: string; commands: string[] } {
+  const lines = code.split('\n')
+  const isContinuation = (line: string) =>
+    /^[\s|)\]},·]/.test(line) || /^(deriving(?!\s+instance)|where\b|<;>)/.test(line)
+  const isComment = (line: string) => /^\s*(--|\/-)/.test(line)
+
+  let commentDepth = 0
+  const depthChange = (line: string) =>
+    (line.match(/\/-/g)?.length ?? 0) - (line.match(/-\//g)?.length ?? 0)
+
+  let i = 0
+  const header: string[] = []
+  for (; i < lines.length; i++) {
+    const line = lines[i]
+    const inComment = commentDepth > 0
+    if (!inComment && line.trim() !== '' && !isComment(line) &&
+      !/^\s*(module\b|prelude\b|(public\s+)?(meta\s+)?import\s)/.test(line)) break
+    commentDepth = Math.max(0, commentDepth + depthChange(line))
+    header.push(line)
+  }
+
+  const commands: string[] = []
+  let current: string[] = []
+  let hasCode = false
+  for (; i < lines.length; i++) {
+    const line = lines[i]
+    const startsCommand = commentDepth === 0 && line !== '' && !isContinuation(line)
+    // A comment in column 0 after some code already starts the next command
+    if (startsCommand && hasCode) {
+      commands.push(current.join('\n'))
+      current = []
+      hasCode = false
+    }
+    current.push(line)
+    if (commentDepth === 0 && line.trim() !== '' && !isComment(line)) hasCode = true
+    commentDepth = Math.max(0, commentDepth + depthChange(line))
+  }
+  if (hasCode) commands.push(current.join('\n'))
+
+  return { header: header.join('\n'), commands: commands.map(c => c.trimEnd()) }
+}
@@ -0,0 +1,306 @@
+/**
+ * App-side handle for one Lean runner worker
+ * Wraps the message protocol in a single interface: configure, load a library,
+ * start, and receive stdout/stderr/done through callbacks.
+ */
+
+import type { LibraryBlob } from '../utils'
+import { PROTOCOL_VERSION } from './protocol'
+import type { LazyLibrary, RunnerConfig, RunnerMessage, RunnerReply, RunnerRequestBody } from './protocol'
+
+// How long a new worker may take to announce itself
+const HANDSHAKE_TIMEOUT_MS = 30000
+
+// How long loading lean.js and compiling lean.wasm (~100MB) may take
+const INIT_TIMEOUT_MS = 180_000
+
+// How long the runner may take to mount a library (the whole library, eagerly, at worst)
+const LOAD_LIBRARY_TIMEOUT_MS = 120_000
+
+export interface RunnerCallbacks {
+  onStdout?: (text: string) => void
+  onStdoutBytes?: (data: Uint8Array) => void  // Runs configured with rawStdout
+  onStderr?: (text: string) => void
+  onProgress?: (text: string) => void
+  onLibraryMounted?: (ms: number) => void
+  onLazyStats?: (files: number, bytes: number, cached: number) => void
+}
+
+// How a run ended: main() returned/exited, the user stopped it, it hit the wall-time
+// limit, or the runtime aborted (trap, out of memory, worker crash)
+export type RunOutcome = 'exit' | 'cancel' | 'timeout' | 'abort'
+
+export interface RunResult {
+  outcome: RunOutcome
+  exitCode: number | null   // Only for 'exit'
+  message?: string          // Abort reason or timeout description
+  durationMs: number
+  files?: Map<string, Uint8Array>  // The configured outputs that exist after an exit
+  memoryBytes?: number | null      // Peak wasm memory of the run, when it reached the end
+}
+
+// A library ready to hand to a runner, as prepared by the app for the current FS mode
+export interface PreparedLibrary {
+  library: LibraryBlob | LazyLibrary
+  libraryKey: string
+  // Used when the runner can't serve a lazy library
+  loadEager?: () => Promise<{ blob: LibraryBlob }>
+}
+
+interface PendingRequest {
+  reply: RunnerReply['type']
+  resolve: (message: RunnerReply) => void
+  reject: (err: Error) => void
+  timer?: ReturnType<typeof setTimeout>
+}
+
+export class LeanRunner {
+  private worker: Worker
+  private callbacks: RunnerCallbacks
+  private nextId = 1
+  private pending = new Map<number, PendingRequest>()
+  private disposed = false
+  // Why the worker was terminated, if it was stopped on purpose
+  private stopReason: 'cancel' | 'timeout' | null = null
+  private _memoryBytes: number | null = null
+  private _libraryKey: string | null = null
+
+  private readonly onMessage = (event: MessageEvent<RunnerMessage>) => this.handleMessage(event.data)
+  private readonly onError = (event: ErrorEvent) => this.failAll(new Error(`Runner worker error: ${event.message}`))
+
+  private constructor(worker: Worker, callbacks: RunnerCallbacks) {
+    this.worker = worker
+    this.callbacks = callbacks
+    worker.addEventListener('message', this.onMessage)
+    worker.addEventListener('error', this.onError)
+  }
+
+  // Spawn a runner and wait for its handshake. A runner speaking another protocol
+  // version (e.g. a stale cached build) is rejected rather than half-working.
+  static create(callbacks: RunnerCallbacks = {}): Promise<LeanRunner> {
+    return new Promise((resolve, reject) => {
+      const worker = new Worker(new URL('./host.ts', import.meta.url), { type: 'module', name: 'lean-runner' })
+      const fail = (err: Error) => {
+        cleanup()
+        worker.terminate()
+        reject(err)
+      }
+      const onReady = (event: MessageEvent<RunnerMessage>) => {
+        const msg = event.data
+        if (msg.type === 'ready') {
+          if (msg.protocolVersion !== PROTOCOL_VERSION) {
+            fail(new Error(
+              `Runner protocol mismatch: app speaks v${PROTOCOL_VERSION}, runner speaks v${msg.protocolVersion}. ` +
+              'Reload the page to get matching versions.'))
+            return
+          }
+          cleanup()
+          resolve(new LeanRunner(worker, callbacks))
+        } else if (msg.type === 'error') {
+          fail(new Error(msg.data))
+        }
+      }
+      const onError = (event: ErrorEvent) => fail(new Error(`Failed to start runner worker: ${event.message}`))
+      const timer = setTimeout(() => fail(new Error('Runner worker did not start in time')), HANDSHAKE_TIMEOUT_MS)
+      const cleanup = () => {
+        clearTimeout(timer)
+        worker.removeEventListener('message', onReady)
+        worker.removeEventListener('error', onError)
+      }
+      worker.addEventListener('message', onReady)
+      worker.addEventListener('error', onError)
+    })
+  }
+
+  // Replace some callbacks, e.g. per-run metrics handlers
+  setCallbacks(callbacks: RunnerCallbacks): void {
+    this.callbacks = { ...this.callbacks, ...callbacks }
+  }
+
+  // Wasm memory of the initialized runtime (null until init, or if it couldn't be found)
+  get memoryBytes(): number | null {
+    return this._memoryBytes
+  }
+
+  // Identifies the library mounted in this runner (null = none)
+  get libraryKey(): string | null {
+    return this._libraryKey
+  }
+
+  get isDisposed(): boolean {
+    return this.disposed
+  }
+
+  // Load lean.js from `runtimeUrl` and wait until the runtime and its pthread workers are
+  // ready. main() has not run yet; the runner can now wait (e.g. in a pool) until it is needed.
+  // Rejects if a stuck lean.js or lean.wasm load doesn't finish within INIT_TIMEOUT_MS.
+  async init(runtimeUrl: string, cacheName?: string | null): Promise<void> {
+    const reply = await this.request({ type: 'init', runtimeUrl, cacheName }, 'initialized', INIT_TIMEOUT_MS)
+    if (reply.type === 'initialized') {
+      this._memoryBytes = reply.memoryBytes
+      console.log(`Runner initialized in ${reply.ms.toFixed(0)} ms`)
+    }
+  }
+
+  async configure(config: RunnerConfig): Promise<void> {
+    await this.request({ type: 'configure', config }, 'configured')
+  }
+
+  // Hand over the library; it is mounted before the reply. For a lazy library the
+  // result says whether the runner can actually serve it lazily. `key` identifies the
+  // library so a pool can match pre-loaded runners to runs.
+  async loadLibrary(library: LibraryBlob | LazyLibrary, key: string | null = null): Promise<{ lazy: boolean }> {
+    // A SharedArrayBuffer is shared with the worker, not cloned. Without one the
+    // buffer is structured-cloned once (the app keeps its packed copy for reuse).
+    const isLazy = 'baseUrl' in library
+    const reply = await this.request(isLazy
+      ? { type: 'load_library', lazy: library }
+      : { type: 'load_library', library }, 'library_received', LOAD_LIBRARY_TIMEOUT_MS)
+    const lazy = reply.type === 'library_received' && reply.lazy === true
+    // A lazy library the runner refused was not mounted
+    if (!isLazy || lazy) this._libraryKey = key
+    return { lazy }
+  }
+
+  // Mount `prepared` unless this runner already has it (e.g. pre-loaded by a pool),
+  // falling back to the eager blob when lazy loading is refused
+  async ensureLibrary({ library, libraryKey, loadEager }: PreparedLibrary): Promise<void> {
+    if (this._libraryKey === libraryKey) return
+    const { lazy } = await this.loadLibrary(library, libraryKey)
+    if ('baseUrl' in library && !lazy) {
+      if (!loadEager) throw new Error('Lazy library loading is not supported by the runner')
+      await this.loadLibrary((await loadEager()).blob, libraryKey)
+    }
+  }
+
+  // Run main() with the configured arguments. Never rejects: failures are reported
+  // through the outcome. After `timeoutMs` the worker is terminated and the run times out.
+  async start(timeoutMs?: number): Promise<RunResult> {
+    const startedAt = performance.now()
+    const result = (outcome: RunOutcome, exitCode: number | null, message?: string): RunResult =>
+      ({ outcome, exitCode, message, durationMs: performance.now() - startedAt })
+
+    let timer: ReturnType<typeof setTimeout> | undefined
+    if (timeoutMs !== undefined) {
+      timer = setTimeout(() => this.stop('timeout'), timeoutMs)
+    }
+    try {
+      const reply = await this.request({ type: 'start' }, 'done')
+      if (reply.type !== 'done') return result('abort', null, `Unexpected reply '${reply.type}'`)
+      return reply.abort !== undefined
+        ? { ...result('abort', null, reply.abort), memoryBytes: reply.memoryBytes }
+        : { ...result('exit', reply.exitCode), files: new Map(reply.files?.map(f => [f.path, f.data])), memoryBytes: reply.memoryBytes }
+    } catch (err) {
+      if (this.stopReason === 'cancel') return result('cancel', null)
+      if (this.stopReason === 'timeout') {
+        return result('timeout', null, `Wall-time limit of ${(timeoutMs ?? 0) / 1000}s exceeded`)
+      }
+      return result('abort', null, err instanceof Error ? err.message : String(err))
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  // Files matching `patterns` (paths or globs, see `read_files`) in this runner's
+  // filesystem, once the run has finished
+  async readFiles(patterns: string[]): Promise<Map<string, Uint8Array>> {
+    const reply = await this.request({ type: 'read_files', patterns }, 'files')
+    return new Map(reply.type === 'files' ? reply.files.map(f => [f.path, f.data]) : [])
+  }
+
+  // Stop the current run right away; its start() resolves as cancelled
+  cancel(): void {
+    this.stop('cancel')
+  }
+
+  // Terminate the worker (and every pthread it spawned)
+  dispose(): void {
+    if (this.disposed) return
+    this.disposed = true
+    this.worker.removeEventListener('message', this.onMessage)
+    this.worker.removeEventListener('error', this.onError)
+    this.worker.terminate()
+    this.failAll(new Error('Runner disposed'))
+  }
+
+  private stop(reason: 'cancel' | 'timeout') {
+    if (this.disposed) return
+    this.stopReason = reason
+    this.dispose()
+  }
+
+  private request(body: RunnerRequestBody, reply: RunnerReply['type'], timeoutMs?: number): Promise<RunnerReply> {
+    if (this.disposed) return Promise.reject(new Error('Runner disposed'))
+    const id = this.nextId++
+    return new Promise((resolve, reject) => {
+      const pending: PendingRequest = { reply, resolve, reject }
+      if (timeoutMs !== undefined) {
+        pending.timer = setTimeout(() => {
+          this.settle(id)?.reject(new Error(`Runner request '${body.type}' timed out after ${timeoutMs / 1000}s`))
+        }, timeoutMs)
+      }
+      this.pending.set(id, pending)
+      this.worker.postMessage({ ...body, id })
+    })
+  }
+
+  // Remove a pending request and its timer; returns it if it was still pending
+  private settle(id: number): PendingRequest | undefined {
+    const pending = this.pending.get(id)
+    if (!pending) return undefined
+    this.pending.delete(id)
+    clearTimeout(pending.timer)
+    return pending
+  }
+
+  private failAll(err: Error) {
+    for (const id of [...this.pending.keys()]) {
+      this.settle(id)?.reject(err)
+    }
+  }
+
+  private handleMessage(msg: RunnerMessage) {
+    switch (msg.type) {
+      case 'initialized':
+      case 'configured':
+      case 'library_received':
+      case 'done':
+      case 'files': {
+        const pending = this.pending.get(msg.id)
+        if (pending?.reply === msg.type) {
+          this.settle(msg.id)?.resolve(msg)
+        } else {
+          console.warn(`Runner reply '${msg.type}' for unknown request ${msg.id}`)
+        }
+        break
+      }
+      case 'library_mounted':
+        this.callbacks.onLibraryMounted?.(msg.ms)
+        break
+      case 'lazy_stats':
+        this.callbacks.onLazyStats?.(msg.files, msg.bytes, msg.cached)
+        break
+      case 'stdout':
+        this.callbacks.onStdout?.(msg.data)
+        break
+      case 'stdout_bytes':
+        this.callbacks.onStdoutBytes?.(msg.data)
+        break
+      case 'stderr':
+        this.callbacks.onStderr?.(msg.data)
+        break
+      case 'progress':
+        this.callbacks.onProgress?.(msg.data)
+        break
+      case 'error': {
+        console.error('Runner error:', msg.data)
+        const err = new Error(msg.data)
+        if (msg.id === null) this.failAll(err)
+        else this.settle(msg.id)?.reject(err)
+        break
+      }
+      case 'ready':
+        break
+    }
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * stdin for programs running in a runner
+ *
+ * While main() runs, the runner's thread is blocked and can't receive messages, so
+ * input travels through a SharedArrayBuffer: the app appends bytes and notifies,
+ * the runner waits on the buffer (Atomics.wait is allowed in workers) and reads them.
+ *
+ * Layout: an Int32 header [written, read, closed, signal] followed by a ring of
+ * `capacity` bytes. `written` and `read` count bytes since the start and only grow;
+ * `signal` changes on every update so the reader can't miss a wake-up.
+ */
+
+const WRITTEN = 0
+const READ = 1
+const CLOSED = 2
+const SIGNAL = 3
+const HEADER_INTS = 4
+const HEADER_BYTES = HEADER_INTS * Int32Array.BYTES_PER_ELEMENT
+
+export const DEFAULT_STDIN_CAPACITY = 1024 * 1024
+
+export function createStdinBuffer(capacity = DEFAULT_STDIN_CAPACITY): SharedArrayBuffer {
+  return new SharedArrayBuffer(HEADER_BYTES + capacity)
+}
+
+// App side: queue text for the program's stdin
+export class StdinWriter {
+  private header: Int32Array
+  private data: Uint8Array
+  private queue: Uint8Array[] = []
+  private flushTimer: ReturnType<typeof setTimeout> | undefined
+  private closing = false
+  private encoder = new TextEncoder()
+
+  constructor(buffer: SharedArrayBuffer) {
+    this.header = new Int32Array(buffer, 0, HEADER_INTS)
+    this.data = new Uint8Array(buffer, HEADER_BYTES)
+  }
+
+  write(text: string | Uint8Array): void {
+    if (this.closed) throw new Error('stdin is closed')
+    this.queue.push(typeof text === 'string' ? this.encoder.encode(text) : text)
+    this.flush()
+  }
+
+  // End of input: once the queued input is read, the program's next read returns EOF
+  close(): void {
+    this.closing = true
+    this.flush()
+  }
+
+  get closed(): boolean {
+    return this.closing
+  }
+
+  // Copy as much queued input as fits; retry shortly while the ring is full
+  private flush() {
+    clearTimeout(this.flushTimer)
+    const capacity = this.data.length
+    let written = Atomics.load(this.header, WRITTEN)
+    while (this.queue.length > 0) {
+      const free = capacity - (written - Atomics.load(this.header, READ))
+      if (free === 0) break
+      const chunk = this.queue[0]
+      const count = Math.min(free, chunk.length)
+      for (let i = 0; i < count; i++) {
+        this.data[(written + i) % capacity] = chunk[i]
+      }
+      written += count
+      if (count === chunk.length) this.queue.shift()
+      else this.queue[0] = chunk.subarray(count)
+    }
+    Atomics.store(this.header, WRITTEN, written)
+    if (this.queue.length === 0 && this.closing) {
+      Atomics.store(this.header, CLOSED, 1)
+    }
+    Atomics.add(this.header, SIGNAL, 1)
+    Atomics.notify(this.header, SIGNAL)
+    if (this.queue.length > 0) {
+      this.flushTimer = setTimeout(() => this.flush(), 10)
+    }
+  }
+}
+
+// Runner side: an Emscripten `Module.stdin` callback. Emscripten calls it once per byte
+// and ends a read() at the first undefined, so it returns undefined when the buffer runs
+// dry in the middle of a read and only blocks at the start of the next one.
+// null means EOF.
+export function createStdinReader(buffer: SharedArrayBuffer): () => number | null | undefined {
+  const header = new Int32Array(buffer, 0, HEADER_INTS)
+  const data = new Uint8Array(buffer, HEADER_BYTES)
+  let midRead = false
+
+  return () => {
+    for (;;) {
+      // `closed` is read first: the writer publishes its last bytes before closing
+      const signal = Atomics.load(header, SIGNAL)
+      const closed = Atomics.load(header, CLOSED) === 1
+      const read = Atomics.load(header, READ)
+      const written = Atomics.load(header, WRITTEN)
+      if (read < written) {
+        const byte = data[read % data.length]
+        Atomics.store(header, READ, read + 1)
+        midRead = true
+        return byte
+      }
+      if (midRead) {
+        midRead = false
+        return undefined
+      }
+      if (closed) return null
+      Atomics.wait(header, SIGNAL, signal)
+    }
+  }
+}
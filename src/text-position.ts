@@ -0,0 +1,49 @@
+/**
+ * Positions in the editor buffer
+ *
+ * Line/character pairs are 0-based and count UTF-16 code units, like LSP positions
+ * and JS string offsets.
+ */
+
+export interface TextPosition {
+  line: number
+  character: number
+}
+
+// Offset of each line start in `text`
+export function lineStarts(text: string): number[] {
+  const starts = [0]
+  for (let i = 0; i < text.length; i++) {
+    if (text.charCodeAt(i) === 10) starts.push(i + 1)
+  }
+  return starts
+}
+
+export function offsetToPosition(text: string, offset: number): TextPosition {
+  const starts = lineStarts(text)
+  let line = 0
+  while (line + 1 < starts.length && starts[line + 1] <= offset) line++
+  return { line, character: offset - starts[line] }
+}
+
+// Positions past the end of a line clamp to its end
+export function positionToOffset(text: string, position: TextPosition): number {
+  const starts = lineStarts(text)
+  if (position.line >= starts.length) return text.length
+  const start = starts[Math.max(0, position.line)]
+  const end = position.line + 1 < starts.length ? starts[position.line + 1] - 1 : text.length
+  return Math.min(start + Math.max(0, position.character), end)
+}
+
+// Lean reports columns in Unicode code points; JS strings index UTF-16 code units
+export function columnToCharacter(lineText: string, column: number): number {
+  let character = 0
+  for (let i = 0; i < column && character < lineText.length; i++) {
+    character += lineText.codePointAt(character)! > 0xffff ? 2 : 1
+  }
+  return character
+}
+
+export function characterToColumn(lineText: string, character: number): number {
+  return [...lineText.slice(0, character)].length
+}
@@ -0,0 +1,80 @@
+/**
+ * Lean toolchains the playground can run
+ *
+ * Each toolchain is a directory with its own runtime (lean.js, lean.wasm), library
+ * (lean-lib/, lean-lib-files.json, lean-lib.tar.gz) and lean-manifest.json, listed in
+ * the index /lean-toolchains.json:
+ *
+ *   { "default": "4.28.0-pre", "toolchains": [{ "version": "4.28.0-pre" }, { "version": "4.27.0", "dir": "/lean-wasm/v4.27.0/" }] }
+ *
+ * `dir` defaults to /lean-wasm/<version>/. Without an index the single toolchain of the
+ * original layout is used: /lean-wasm/ with the manifest at /lean-manifest.json.
+ */
+
+// Toolchain the bundled lean.wasm was built from (used when the manifest doesn't say)
+export const DEFAULT_TOOLCHAIN = '4.28.0-pre'
+
+export const TOOLCHAINS_INDEX_URL = '/lean-toolchains.json'
+
+export interface Toolchain {
+  version: string            // Lean version, also the toolchain's id
+  baseUrl: string            // Directory of the runtime and the library, ending in `/`
+  manifestUrl: string
+}
+
+export interface ToolchainIndex {
+  toolchains: Toolchain[]
+  defaultVersion: string
+}
+
+// The layout from before toolchain directories
+const SINGLE_TOOLCHAIN: Toolchain = {
+  version: DEFAULT_TOOLCHAIN,
+  baseUrl: '/lean-wasm/',
+  manifestUrl: '/lean-manifest.json',
+}
+
+// Where the library files of `toolchain` are served from (paths in its file list and
+// manifest are relative to this)
+export function libraryUrl(toolchain: Toolchain): string {
+  return `${toolchain.baseUrl}lean-lib/`
+}
+
+export function fileListUrl(toolchain: Toolchain): string {
+  return `${toolchain.baseUrl}lean-lib-files.json`
+}
+
+export function bundleUrl(toolchain: Toolchain): string {
+  return `${toolchain.baseUrl}lean-lib.tar.gz`
+}
+
+let indexPromise: Promise<ToolchainIndex> | null = null
+
+// The toolchain index (cached). A missing index means the single-toolchain layout; a
+// broken one is an error.
+export function loadToolchains(): Promise<ToolchainIndex> {
+  indexPromise ??= fetch(TOOLCHAINS_INDEX_URL, { cache: 'no-cache' })
+    .then(async r => {
+      // Dev servers answer unknown paths with index.html
+      if (!r.ok || !r.headers.get('content-type')?.includes('json')) {
+        return { toolchains: [SINGLE_TOOLCHAIN], defaultVersion: SINGLE_TOOLCHAIN.version }
+      }
+      const data = await r.json() as { default?: string; toolchains?: { version?: unknown; dir?: unknown }[] }
+      const toolchains = (data.toolchains ?? []).map(entry => {
+        if (typeof entry?.version !== 'string' || !entry.version) {
+          throw new Error(`${TOOLCHAINS_INDEX_URL} has a toolchain without a version`)
+        }
+        const dir = typeof entry.dir === 'string' ? entry.dir.replace(/\/?$/, '/') : `/lean-wasm/${entry.version}/`
+        return { version: entry.version, baseUrl: dir, manifestUrl: `${dir}lean-manifest.json` }
+      })
+      if (toolchains.length === 0) throw new Error(`${TOOLCHAINS_INDEX_URL} lists no toolchains`)
+      const defaultVersion = toolchains.some(t => t.version === data.default) ? data.default! : toolchains[0].version
+      return { toolchains, defaultVersion }
+    })
+    .catch(err => {
+      // Don't cache the failure - a later call may succeed
+      indexPromise = null
+      throw err
+    })
+  return indexPromise
+}
@@ -0,0 +1,121 @@
+// Corpus for the streaming tar parser; run with `npm test`
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { TarExtractor } from './utils.ts';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// One 512-byte header block; only the fields TarExtractor reads are filled in
+function header(name, size, type = '0', prefix = '') {
+  const block = new Uint8Array(512);
+  block.set(encoder.encode(name).subarray(0, 100), 0);
+  block.set(encoder.encode(size.toString(8).padStart(11, '0')), 124);
+  block[156] = type.charCodeAt(0);
+  block.set(encoder.encode('ustar\u000000'), 257);
+  block.set(encoder.encode(prefix), 345);
+  return block;
+}
+
+// Header, body and padding to the next block boundary
+function entry(name, body, type = '0', prefix = '') {
+  const data = typeof body === 'string' ? encoder.encode(body) : body;
+  const padded = new Uint8Array(Math.ceil(data.length / 512) * 512);
+  padded.set(data);
+  return [header(name, data.length, type, prefix), padded];
+}
+
+// PAX records are "<len> <key>=<value>\n", the length counting itself
+function paxRecord(key, value) {
+  const rest = ` ${key}=${value}\n`;
+  let length = rest.length + 1;
+  while (String(length).length + rest.length !== length) length++;
+  return `${length}${rest}`;
+}
+
+function archive(...entries) {
+  const blocks = [...entries.flat(), new Uint8Array(1024)];
+  const out = new Uint8Array(blocks.reduce((n, b) => n + b.length, 0));
+  let offset = 0;
+  for (const block of blocks) {
+    out.set(block, offset);
+    offset += block.length;
+  }
+  return out;
+}
+
+function extract(data, chunkSize = data.length) {
+  const tar = new TarExtractor();
+  for (let i = 0; i < data.length; i += chunkSize) tar.push(data.subarray(i, i + chunkSize));
+  return new Map([...tar.files].map(([name, bytes]) => [name, decoder.decode(bytes)]));
+}
+
+test('regular files', () => {
+  const files = extract(archive(entry('./Init.olean', 'init'), entry('Lean/Elab.olean', 'x'.repeat(600))));
+  assert.deepEqual([...files.keys()], ['Init.olean', 'Lean/Elab.olean']);
+  assert.equal(files.get('Lean/Elab.olean'), 'x'.repeat(600));
+});
+
+test('chunks split anywhere, including inside headers', () => {
+  const data = archive(entry('A.olean', 'a'.repeat(513)), entry('B.olean', 'b'));
+  for (const chunkSize of [1, 7, 511, 512, 513]) {
+    const files = extract(data, chunkSize);
+    assert.equal(files.get('A.olean'), 'a'.repeat(513));
+    assert.equal(files.get('B.olean'), 'b');
+  }
+});
+
+test('ustar prefix', () => {
+  const files = extract(archive(entry('Basic.olean', 'b', '0', 'lean-lib/Std/Data')));
+  assert.deepEqual([...files.keys()], ['lean-lib/Std/Data/Basic.olean']);
+});
+
+test('PAX path and size for the next entry', () => {
+  const long = `${'Deep/'.repeat(30)}Module.olean`;
+  const files = extract(archive(
+    entry('PaxHeader', paxRecord('path', long), 'x'),
+    entry('truncated-name', 'long'),
+    entry('Next.olean', 'next'),
+  ));
+  assert.deepEqual([...files.keys()], [long, 'Next.olean']);
+  assert.equal(files.get(long), 'long');
+});
+
+test('PAX global headers apply to all following entries', () => {
+  const files = extract(archive(
+    entry('GlobalHead', paxRecord('comment', 'ignored'), 'g'),
+    entry('A.olean', 'a'),
+  ));
+  assert.deepEqual([...files.keys()], ['A.olean']);
+});
+
+test('GNU long names', () => {
+  const long = `${'Nested/'.repeat(20)}File.olean`;
+  const files = extract(archive(
+    entry('././@LongLink', `${long}\0`, 'L'),
+    entry('short', 'gnu'),
+    entry('After.olean', 'after'),
+  ));
+  assert.deepEqual([...files.keys()], [long, 'After.olean']);
+});
+
+test('directories, empty files and AppleDouble files are skipped', () => {
+  const files = extract(archive(
+    entry('Lean/', '', '5'),
+    entry('Empty.olean', ''),
+    entry('._Init.olean', 'meta'),
+    entry('Lean/._Elab.olean', 'meta'),
+    entry('Init.olean', 'init'),
+  ));
+  assert.deepEqual([...files.keys()], ['Init.olean']);
+});
+
+test('nothing is read after the end-of-archive block', () => {
+  const data = archive(entry('A.olean', 'a'));
+  const trailing = archive(entry('B.olean', 'b'));
+  const joined = new Uint8Array(data.length + trailing.length);
+  joined.set(data);
+  joined.set(trailing, data.length);
+  assert.deepEqual([...extract(joined).keys()], ['A.olean']);
+});
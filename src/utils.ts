@@ -1,77 +1,231 @@
-// Simple tar parser for extracting files
-export function parseTar(data: Uint8Array): Map<string, Uint8Array> {
-  const files = new Map<string, Uint8Array>()
+const TAR_BLOCK = 512
+
+// Tar type flags (byte 156 of the header)
+const TYPE_FILE = 0x30            // '0'
+const TYPE_FILE_OLD = 0           // NUL - pre-POSIX regular file
+const TYPE_CONTIGUOUS = 0x37      // '7'
+const TYPE_PAX_NEXT = 0x78        // 'x' - PAX header for the next entry
+const TYPE_PAX_GLOBAL = 0x67      // 'g' - PAX header for all following entries
+const TYPE_GNU_LONGNAME = 0x4c    // 'L' - GNU long name for the next entry
+const TYPE_GNU_LONGLINK = 0x4b    // 'K' - GNU long link target (ignored)
+
+const textDecoder = new TextDecoder()
+
+function readString(header: Uint8Array, start: number, length: number): string {
+  let end = start
+  while (end < start + length && header[end] !== 0) end++
+  return textDecoder.decode(header.subarray(start, end))
+}
+
+function readOctal(header: Uint8Array, start: number, length: number): number {
+  let str = ''
+  for (let i = start; i < start + length; i++) {
+    if (header[i] === 0 || header[i] === 32) {
+      if (str) break
+      continue  // Leading spaces are allowed
+    }
+    str += String.fromCharCode(header[i])
+  }
+  return parseInt(str, 8) || 0
+}
+
+// Parse PAX extended header records: "<len> <key>=<value>\n"
+function parsePaxRecords(data: Uint8Array): Record<string, string> {
+  const records: Record<string, string> = {}
   let offset = 0
-  
-  while (offset < data.length - 512) {
-    // Read header
-    const header = data.subarray(offset, offset + 512)
-    
-    // Check for empty block (end of archive)
-    if (header.every(b => b === 0)) break
-    
-    // Extract filename (first 100 bytes, null-terminated)
-    let nameEnd = 0
-    while (nameEnd < 100 && header[nameEnd] !== 0) nameEnd++
-    let name = new TextDecoder().decode(header.subarray(0, nameEnd))
-    
-    // Check for USTAR format and handle prefix (bytes 345-499)
-    const magic = new TextDecoder().decode(header.subarray(257, 262))
-    if (magic === 'ustar') {
-      let prefixEnd = 345
-      while (prefixEnd < 500 && header[prefixEnd] !== 0) prefixEnd++
-      if (prefixEnd > 345) {
-        const prefix = new TextDecoder().decode(header.subarray(345, prefixEnd))
-        name = prefix + '/' + name
+  while (offset < data.length) {
+    let space = offset
+    while (space < data.length && data[space] !== 32) space++
+    const length = parseInt(textDecoder.decode(data.subarray(offset, space)), 10)
+    if (!length || offset + length > data.length) break
+    const record = textDecoder.decode(data.subarray(space + 1, offset + length - 1))
+    const eq = record.indexOf('=')
+    if (eq > 0) records[record.slice(0, eq)] = record.slice(eq + 1)
+    offset += length
+  }
+  return records
+}
+
+interface TarEntry {
+  name: string
+  type: number
+  data: Uint8Array
+  written: number
+}
+
+// Incremental tar parser: feed it chunks as they arrive (e.g. from a decompressor)
+// and collect regular files. Handles ustar prefixes, PAX (x/g) and GNU long names.
+export class TarExtractor {
+  readonly files = new Map<string, Uint8Array>()
+  private leftover = new Uint8Array(0)
+  private entry: TarEntry | null = null
+  private padding = 0
+  private ended = false
+  private paxNext: Record<string, string> = {}
+  private paxGlobal: Record<string, string> = {}
+  private longName: string | null = null
+
+  push(chunk: Uint8Array): void {
+    if (this.ended) return
+    let data = chunk
+    if (this.leftover.length > 0) {
+      data = new Uint8Array(this.leftover.length + chunk.length)
+      data.set(this.leftover)
+      data.set(chunk, this.leftover.length)
+    }
+    let offset = 0
+
+    while (!this.ended) {
+      if (this.entry) {
+        const entry = this.entry
+        const n = Math.min(entry.data.length - entry.written, data.length - offset)
+        entry.data.set(data.subarray(offset, offset + n), entry.written)
+        entry.written += n
+        offset += n
+        if (entry.written < entry.data.length) break
+        this.finishEntry(entry)
+        this.entry = null
+        continue
       }
+      if (this.padding > 0) {
+        const n = Math.min(this.padding, data.length - offset)
+        this.padding -= n
+        offset += n
+        if (this.padding > 0) break
+        continue
+      }
+      if (data.length - offset < TAR_BLOCK) break
+      this.readHeader(data.subarray(offset, offset + TAR_BLOCK))
+      offset += TAR_BLOCK
     }
-    
-    // Extract file size (bytes 124-135, octal string)
-    let sizeStr = ''
-    for (let i = 124; i < 136; i++) {
-      if (header[i] === 0 || header[i] === 32) break
-      sizeStr += String.fromCharCode(header[i])
+
+    // Less than one header block remains; body bytes are always consumed directly
+    this.leftover = data.slice(offset)
+  }
+
+  private readHeader(header: Uint8Array): void {
+    // Empty block marks the end of the archive
+    if (header.every(b => b === 0)) {
+      this.ended = true
+      return
     }
-    const size = parseInt(sizeStr, 8) || 0
-    
-    // Extract type flag (byte 156)
-    const typeFlag = header[156]
-    
-    offset += 512
-    
-    // Type 0 or null = regular file, skip directories (5) and pax headers (x, g)
-    if ((typeFlag === 0 || typeFlag === 48) && size > 0 && name) {
-      // Skip macOS AppleDouble files (._*)
-      if (!name.includes('/._') && !name.startsWith('._')) {
-        const fileData = data.slice(offset, offset + size)  // Use slice, not subarray
-        files.set(name, fileData)
-      }
+
+    let name = readString(header, 0, 100)
+    // USTAR format stores a path prefix in bytes 345-499
+    if (textDecoder.decode(header.subarray(257, 262)) === 'ustar') {
+      const prefix = readString(header, 345, 155)
+      if (prefix) name = prefix + '/' + name
+    }
+
+    const type = header[156]
+    let size = readOctal(header, 124, 12)
+    const isMeta = type === TYPE_PAX_NEXT || type === TYPE_PAX_GLOBAL ||
+      type === TYPE_GNU_LONGNAME || type === TYPE_GNU_LONGLINK
+
+    if (!isMeta) {
+      // Extended names/sizes override the fixed-width header fields
+      const pax = { ...this.paxGlobal, ...this.paxNext }
+      name = pax.path ?? this.longName ?? name
+      if (pax.size) size = parseInt(pax.size, 10)
+      this.paxNext = {}
+      this.longName = null
+    }
+
+    this.padding = (TAR_BLOCK - (size % TAR_BLOCK)) % TAR_BLOCK
+    const entry: TarEntry = { name, type, data: new Uint8Array(size), written: 0 }
+    if (size > 0) {
+      this.entry = entry
+    } else {
+      this.finishEntry(entry)
     }
-    
-    // Move to next header (512-byte aligned)
-    offset += Math.ceil(size / 512) * 512
   }
-  
-  console.log(`Parsed ${files.size} files from tar`)
-  // Debug: check Init.olean size
-  for (const [name, data] of files) {
-    if (name.endsWith('Init.olean') && !name.includes('/')) {
-      console.log(`Found root Init.olean: ${name}, size: ${data.byteLength}`)
+
+  private finishEntry(entry: TarEntry): void {
+    switch (entry.type) {
+      case TYPE_PAX_NEXT:
+        this.paxNext = parsePaxRecords(entry.data)
+        return
+      case TYPE_PAX_GLOBAL:
+        this.paxGlobal = { ...this.paxGlobal, ...parsePaxRecords(entry.data) }
+        return
+      case TYPE_GNU_LONGNAME:
+        this.longName = readString(entry.data, 0, entry.data.length)
+        return
+      case TYPE_FILE:
+      case TYPE_FILE_OLD:
+      case TYPE_CONTIGUOUS: {
+        const name = entry.name.replace(/^\.\//, '')
+        // Skip empty files and macOS AppleDouble files (._*)
+        if (entry.data.length > 0 && name && !name.includes('/._') && !name.startsWith('._')) {
+          this.files.set(name, entry.data)
+        }
+        return
+      }
+      // Directories, links, GNU long link targets etc. are ignored
     }
   }
-  
-  return files
 }
 
-// Convert Map to array for postMessage transfer
-export function filesToTransferable(files: Map<string, Uint8Array>): Array<{name: string, data: ArrayBuffer}> {
-  const result: Array<{name: string, data: ArrayBuffer}> = []
+export interface LibraryBlobEntry {
+  name: string
+  offset: number
+  length: number
+}
+
+// All library files packed into one buffer plus an offset index. When the buffer is a
+// SharedArrayBuffer it can be posted to any number of runners without being copied.
+export interface LibraryBlob {
+  buffer: SharedArrayBuffer | ArrayBuffer
+  entries: LibraryBlobEntry[]
+  byteLength: number
+}
+
+// Pack files into a single (shared when possible) buffer - the only copy the library needs
+export function packLibrary(files: Map<string, Uint8Array>): LibraryBlob {
+  let byteLength = 0
+  files.forEach(data => { byteLength += data.byteLength })
+  
+  const buffer = typeof SharedArrayBuffer !== 'undefined'
+    ? new SharedArrayBuffer(byteLength)
+    : new ArrayBuffer(byteLength)
+  const view = new Uint8Array(buffer)
+  const entries: LibraryBlobEntry[] = []
+  let offset = 0
   files.forEach((data, name) => {
-    // Copy to a new ArrayBuffer to ensure it's transferable
-    const copy = new ArrayBuffer(data.byteLength)
-    new Uint8Array(copy).set(data)
-    result.push({ name, data: copy })
+    view.set(data, offset)
+    entries.push({ name, offset, length: data.byteLength })
+    offset += data.byteLength
   })
-  return result
+  
+  return { buffer, entries, byteLength }
+}
+
+export function isSharedLibrary(blob: LibraryBlob): boolean {
+  return typeof SharedArrayBuffer !== 'undefined' && blob.buffer instanceof SharedArrayBuffer
 }
 
+// Current JS heap size of the page from the non-standard performance.memory (Chromium
+// only, null elsewhere). Shown next to the transfer metrics as a secondary figure; Lean's
+// wasm memory is not part of it, runners report that.
+export function sampleHeapSize(): number | null {
+  const perf = performance as Performance & { memory?: { usedJSHeapSize: number } }
+  return perf.memory?.usedJSHeapSize ?? null
+}
+
+// Human-readable byte count for status messages
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+// Save `data` through the browser's download prompt
+export function downloadBytes(fileName: string, data: Uint8Array | string, type = 'application/octet-stream') {
+  const url = URL.createObjectURL(new Blob([data as BlobPart], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  // Revoke after the click has been handled
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
@@ -0,0 +1,53 @@
+// Corpus for workspace file names and the build order; run with `npm test`
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildOrder, localImports, moduleNameOf, oleanPathOf, validateFileName, workspaceFileName } from './workspace.ts';
+
+const file = (name, content = '') => ({ name, content });
+const names = files => files.map(f => f.name);
+
+test('file names map to module names and build paths', () => {
+  assert.equal(moduleNameOf('Foo/Bar.lean'), 'Foo.Bar');
+  assert.equal(oleanPathOf('Foo/Bar.lean'), '/workspace/build/Foo/Bar.olean');
+  assert.equal(workspaceFileName('/workspace/Foo/Bar.lean'), 'Foo/Bar.lean');
+  assert.equal(workspaceFileName('/lib/lean/Init.lean'), '/lib/lean/Init.lean');
+});
+
+test('valid file names are module paths ending in .lean', () => {
+  const files = [file('Main.lean')];
+  for (const name of ['A.lean', 'Foo/Bar.lean', "h'.lean", '_x/y_1.lean']) {
+    assert.equal(validateFileName(name, files), null, name);
+  }
+  for (const name of ['A', 'a.txt', '/A.lean', 'Foo//Bar.lean', '1A.lean', 'Foo/.lean', 'A B.lean', '../A.lean']) {
+    assert.match(validateFileName(name, files), /module paths/, name);
+  }
+  assert.equal(validateFileName('Main.lean', files), 'Main.lean already exists');
+});
+
+test('local imports are the workspace files a file imports', () => {
+  const files = [file('Main.lean', 'import Lean\nimport Foo.Bar\nimport Baz'), file('Foo/Bar.lean'), file('Baz.lean')];
+  assert.deepEqual(localImports(files[0], files), ['Foo/Bar.lean', 'Baz.lean']);
+});
+
+test('imported files are built first', () => {
+  const files = [
+    file('Main.lean', 'import B\nimport A'),
+    file('A.lean', 'import C'),
+    file('B.lean', 'import A'),
+    file('C.lean'),
+    file('Other.lean'),
+  ];
+  assert.deepEqual(names(buildOrder(files)), ['C.lean', 'A.lean', 'B.lean', 'Main.lean', 'Other.lean']);
+});
+
+test('only imports in the header count', () => {
+  const files = [file('A.lean', 'def x := 1\nimport B'), file('B.lean', 'import A')];
+  assert.deepEqual(names(buildOrder(files)), ['A.lean', 'B.lean']);
+});
+
+test('an import cycle is an error naming the modules', () => {
+  const files = [file('A.lean', 'import B'), file('B.lean', 'import Foo.C'), file('Foo/C.lean', 'import A')];
+  assert.throws(() => buildOrder(files), { message: 'Import cycle: A → B → Foo.C → A' });
+  assert.throws(() => buildOrder([file('A.lean', 'import A')]), { message: 'Import cycle: A → A' });
+});
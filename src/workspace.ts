@@ -0,0 +1,83 @@
+/**
+ * Multi-file workspace
+ *
+ * Files are named by their path relative to the workspace root (`Foo/Bar.lean`), which
+ * is also their module name (`Foo.Bar`). A file that others import is compiled with
+ * `lean -o` before them, so the build order follows the imports.
+ */
+
+import { parseUserImports } from './lean-loader'
+import { WORKSPACE_DIR, WORKSPACE_OLEAN_DIR } from './runner/protocol'
+
+export interface WorkspaceFile {
+  name: string               // Relative path, e.g. `Foo/Bar.lean`
+  content: string
+}
+
+export const DEFAULT_FILE_NAME = 'Main.lean'
+
+// `Foo/Bar.lean` -> `Foo.Bar`
+export function moduleNameOf(fileName: string): string {
+  return fileName.replace(/\.lean$/, '').split('/').join('.')
+}
+
+// Where a workspace file lives in the runner's filesystem
+export function workspacePath(fileName: string): string {
+  return `${WORKSPACE_DIR}/${fileName}`
+}
+
+// Where `lean -o` puts the compiled module, on LEAN_PATH for the files importing it
+export function oleanPathOf(fileName: string): string {
+  return `${WORKSPACE_OLEAN_DIR}/${fileName.replace(/\.lean$/, '.olean')}`
+}
+
+// Workspace file name for a path Lean reports in its messages
+export function workspaceFileName(path: string): string {
+  return path.startsWith(`${WORKSPACE_DIR}/`) ? path.slice(WORKSPACE_DIR.length + 1) : path
+}
+
+// Why `name` can't be a workspace file name, or null if it can
+export function validateFileName(name: string, files: WorkspaceFile[]): string | null {
+  if (!/^([A-Za-z_][A-Za-z0-9_']*\/)*[A-Za-z_][A-Za-z0-9_']*\.lean$/.test(name)) {
+    return 'File names are module paths ending in .lean, e.g. Foo/Bar.lean'
+  }
+  if (files.some(f => f.name === name)) return `${name} already exists`
+  return null
+}
+
+export function localModules(files: WorkspaceFile[]): Set<string> {
+  return new Set(files.map(f => moduleNameOf(f.name)))
+}
+
+// Workspace files `file` imports, by name
+export function localImports(file: WorkspaceFile, files: WorkspaceFile[]): string[] {
+  const byModule = new Map(files.map(f => [moduleNameOf(f.name), f.name]))
+  return parseUserImports(file.content)
+    .map(imp => byModule.get(imp))
+    .filter((name): name is string => name !== undefined)
+}
+
+// Files in dependency order (imports first). Throws on an import cycle.
+export function buildOrder(files: WorkspaceFile[]): WorkspaceFile[] {
+  const byName = new Map(files.map(f => [f.name, f]))
+  const order: WorkspaceFile[] = []
+  const state = new Map<string, 'visiting' | 'done'>()
+
+  const visit = (file: WorkspaceFile, path: string[]) => {
+    const current = state.get(file.name)
+    if (current === 'done') return
+    if (current === 'visiting') {
+      const cycle = [...path.slice(path.indexOf(file.name)), file.name]
+      throw new Error(`Import cycle: ${cycle.map(moduleNameOf).join(' → ')}`)
+    }
+    state.set(file.name, 'visiting')
+    for (const dep of localImports(file, files)) {
+      visit(byName.get(dep)!, [...path, file.name])
+    }
+    state.set(file.name, 'done')
+    order.push(file)
+  }
+
+  for (const file of files) visit(file, [])
+  return order
+}
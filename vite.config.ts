@@ -17,6 +17,9 @@ export default defineConfig({
       'Cross-Origin-Embedder-Policy': 'require-corp',
     },
   },
+  worker: {
+    format: 'es', // Library bundle worker is a module worker
+  },
   optimizeDeps: {
     exclude: ['lean-wasm'], // Don't try to optimize the WASM module
   },